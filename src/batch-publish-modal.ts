@@ -0,0 +1,518 @@
+import { App, Modal, Setting, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import type GhostyPostyPlugin from './main';
+import { GhostPostResponse, GhostSite, GhostSiteTag, GhostTier, GhostUser, PostType, SeoFields } from './types';
+import { GhostAPI } from './ghost-api';
+import { ImageUploader } from './image-uploader';
+import { UPLOAD_CONCURRENCY, runWithConcurrency } from './upload-queue';
+import { FolderSuggest } from './folder-suggest';
+import { applyUploadedImages, buildPostContent, buildPostPayload, collectPostImages, resolveAuthors, resolveTags, resolveTiers } from './post-payload';
+
+/**
+ * Notes to publish: a folder chosen in the modal, or notes selected in the file explorer
+ */
+export type BatchTarget = { folder: TFolder | null } | { files: TFile[] };
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+type BatchState = 'pending' | 'running' | 'published' | 'failed' | 'skipped';
+
+interface BatchItem {
+    file: TFile;
+    state: BatchState;
+    message: string;
+    url?: string;
+    rowEl: HTMLElement | null;
+}
+
+type BatchOutcome = { state: 'published' | 'failed' | 'skipped'; message: string; url?: string };
+
+/**
+ * Staff users, tags and tiers of a site, loaded once per batch
+ */
+interface SiteLookups {
+    users: GhostUser[] | null;
+    usersError: string | null;
+    tags: GhostSiteTag[] | null;
+    tagsError: string | null;
+    tiers: GhostTier[] | null;
+    tiersError: string | null;
+}
+
+export class BatchPublishModal extends Modal {
+    private plugin: GhostyPostyPlugin;
+    private target: BatchTarget;
+
+    // Form values
+    private folderPath: string;
+    private includeSubfolders: boolean = true;
+
+    // Per-run state
+    private items: BatchItem[] = [];
+    private lookups = new Map<string, SiteLookups>();
+    private running: boolean = false;
+    private stopped: boolean = false;
+
+    // UI elements
+    private countEl: HTMLElement | null = null;
+    private publishButton: HTMLButtonElement | null = null;
+    private progressEl: HTMLProgressElement | null = null;
+    private statusEl: HTMLElement | null = null;
+    private listEl: HTMLElement | null = null;
+
+    constructor(app: App, plugin: GhostyPostyPlugin, target: BatchTarget) {
+        super(app);
+        this.plugin = plugin;
+        this.target = target;
+        this.folderPath = 'folder' in target && target.folder ? target.folder.path : '';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+
+        contentEl.createEl('h2', { text: 'Publish to ghost' });
+
+        const formSection = contentEl.createDiv({ cls: 'ghosty-posty-form' });
+
+        if ('folder' in this.target) {
+            new Setting(formSection)
+                .setName('Folder')
+                .setDesc('Every note in this folder is published to the site set in its frontmatter')
+                .addText(text => {
+                    text
+                        .setValue(this.folderPath)
+                        .onChange(value => {
+                            this.folderPath = value.trim();
+                            this.updateCount();
+                        });
+                    new FolderSuggest(this.app, text.inputEl);
+                    return text;
+                });
+
+            new Setting(formSection)
+                .setName('Include subfolders')
+                .addToggle(toggle => toggle
+                    .setValue(this.includeSubfolders)
+                    .onChange(value => {
+                        this.includeSubfolders = value;
+                        this.updateCount();
+                    }));
+        }
+
+        this.countEl = formSection.createDiv({ cls: 'ghosty-posty-field' });
+        formSection.createDiv({
+            cls: 'ghosty-posty-field ghosty-posty-muted',
+            text: 'Newsletters are never sent from a batch. Notes edited in ghost since they were last published, and notes with tags that don\'t exist in ghost yet, are skipped.'
+        });
+
+        // Progress area, filled in once publishing starts
+        this.progressEl = contentEl.createEl('progress', { cls: 'ghosty-posty-batch-progress' });
+        this.progressEl.hide();
+        this.statusEl = contentEl.createDiv({ cls: 'ghosty-posty-status' });
+        this.listEl = contentEl.createEl('ul', { cls: 'ghosty-posty-upload-list' });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'ghosty-posty-buttons' });
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => {
+            if (this.running) {
+                this.stopped = true;
+                cancelButton.textContent = 'Stopping...';
+                cancelButton.setAttribute('disabled', 'true');
+            } else {
+                this.close();
+            }
+        });
+
+        this.publishButton = buttonContainer.createEl('button', { cls: 'mod-cta' });
+        this.publishButton.addEventListener('click', () => {
+            void this.run(cancelButton);
+        });
+
+        this.updateCount();
+    }
+
+    /**
+     * Find the markdown notes the batch publishes, in path order
+     */
+    private getFiles(): TFile[] {
+        if ('files' in this.target) {
+            return this.target.files;
+        }
+
+        // An empty field is never taken as the vault root, so the whole vault isn't published by accident
+        if (!this.folderPath) {
+            return [];
+        }
+        const folder = this.app.vault.getAbstractFileByPath(normalizePath(this.folderPath));
+        if (!(folder instanceof TFolder)) {
+            return [];
+        }
+
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        return this.app.vault.getMarkdownFiles()
+            .filter(file => this.includeSubfolders ? file.path.startsWith(prefix) : file.parent === folder)
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    private updateCount() {
+        const count = this.getFiles().length;
+        if (this.countEl) {
+            this.countEl.textContent = 'folder' in this.target && !this.folderPath
+                ? 'Choose a folder to publish'
+                : 'folder' in this.target && count === 0
+                    ? 'No notes found in this folder'
+                    : `${count} note${count === 1 ? '' : 's'} will be published`;
+        }
+        if (this.publishButton) {
+            this.publishButton.textContent = `Publish ${count} note${count === 1 ? '' : 's'}`;
+            if (count === 0) {
+                this.publishButton.setAttribute('disabled', 'true');
+            } else {
+                this.publishButton.removeAttribute('disabled');
+            }
+        }
+    }
+
+    private setStatus(message: string) {
+        if (this.statusEl) {
+            this.statusEl.textContent = message;
+        }
+    }
+
+    /**
+     * Show a note's progress in the shared list
+     */
+    private updateItem(item: BatchItem, state: BatchState, message: string) {
+        item.state = state;
+        item.message = message;
+
+        if (!item.rowEl) {
+            item.rowEl = this.listEl?.createEl('li', { cls: 'ghosty-posty-upload-item' }) ?? null;
+        }
+        if (!item.rowEl) {
+            return;
+        }
+
+        item.rowEl.empty();
+        item.rowEl.createSpan({ cls: 'ghosty-posty-upload-name', text: item.file.basename });
+        item.rowEl.createSpan({ cls: `ghosty-posty-upload-state is-${state}`, text: message });
+    }
+
+    private async run(cancelButton: HTMLButtonElement) {
+        const files = this.getFiles();
+        if (files.length === 0) {
+            return;
+        }
+
+        this.running = true;
+        this.stopped = false;
+        this.publishButton?.setAttribute('disabled', 'true');
+        this.contentEl.querySelector('.ghosty-posty-form')?.remove();
+
+        this.items = files.map(file => ({ file, state: 'pending', message: '', rowEl: null }));
+        this.items.forEach(item => this.updateItem(item, 'pending', 'Waiting'));
+
+        if (this.progressEl) {
+            this.progressEl.max = this.items.length;
+            this.progressEl.value = 0;
+            this.progressEl.show();
+        }
+
+        for (let i = 0; i < this.items.length; i++) {
+            const item = this.items[i];
+            if (this.stopped) {
+                this.updateItem(item, 'skipped', 'Stopped before publishing');
+                continue;
+            }
+
+            this.setStatus(`Publishing ${i + 1}/${this.items.length}: ${item.file.basename}`);
+            this.updateItem(item, 'running', 'Preparing...');
+
+            let outcome: BatchOutcome;
+            try {
+                outcome = await this.publishNote(item);
+            } catch (error) {
+                outcome = { state: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+            }
+            item.url = outcome.url;
+            this.updateItem(item, outcome.state, outcome.message);
+
+            if (this.progressEl) {
+                this.progressEl.value = i + 1;
+            }
+        }
+
+        this.running = false;
+        cancelButton.textContent = 'Close';
+        cancelButton.removeAttribute('disabled');
+        this.publishButton?.remove();
+        this.renderSummary();
+    }
+
+    /**
+     * Load a site's staff users and tags the first time a note publishes to it
+     */
+    private async getLookups(api: GhostAPI, site: GhostSite): Promise<SiteLookups> {
+        const cached = this.lookups.get(site.id);
+        if (cached) {
+            return cached;
+        }
+
+        const [users, tags] = await Promise.all([api.getUsers(), api.getTags()]);
+        const lookups: SiteLookups = {
+            users: users.success ? users.users : null,
+            usersError: users.success ? null : users.error,
+            tags: tags.success ? tags.tags : null,
+            tagsError: tags.success ? null : tags.error,
+            tiers: null,
+            tiersError: null
+        };
+        this.lookups.set(site.id, lookups);
+        return lookups;
+    }
+
+    /**
+     * Load a site's paid tiers, only when a note limits access to tiers
+     */
+    private async getTiers(api: GhostAPI, lookups: SiteLookups): Promise<GhostTier[] | null> {
+        if (lookups.tiers === null && lookups.tiersError === null) {
+            const result = await api.getTiers();
+            if (result.success) {
+                lookups.tiers = result.tiers;
+            } else {
+                lookups.tiersError = result.error;
+            }
+        }
+        return lookups.tiers;
+    }
+
+    /**
+     * Convert, upload and create or update a single note
+     * Runs without prompts: anything the publish dialog would ask about fails or skips the note
+     */
+    private async publishNote(item: BatchItem): Promise<BatchOutcome> {
+        const file = item.file;
+
+        // Notes that stop before reaching ghost are recorded too, with the reason as the error
+        let site: GhostSite | null = null;
+        let type: PostType = 'post';
+        let existingPost: GhostPostData | null = null;
+        const stop = async (state: 'failed' | 'skipped', message: string, imageCount = 0): Promise<BatchOutcome> => {
+            await this.plugin.history.recordAttempt(file.path, site, type, existingPost, imageCount, { error: message });
+            return { state, message };
+        };
+
+        const siteResult = this.plugin.resolveSiteForFile(file);
+        if (!siteResult.success) {
+            return stop('failed', siteResult.error);
+        }
+        site = siteResult.site;
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+
+        const prepared = await this.plugin.prepareNote(file, site);
+        if (!prepared.success) {
+            return stop('failed', prepared.error);
+        }
+        const { metadata, conversionResult } = prepared.note;
+        type = metadata.type;
+        existingPost = prepared.note.existingPost;
+
+        // Overwriting edits made in ghost needs the publish dialog's confirmation
+        if (existingPost && metadata.ghostUpdatedAt
+            && new Date(existingPost.updated_at).getTime() !== new Date(metadata.ghostUpdatedAt).getTime()) {
+            return stop('skipped', 'Edited in ghost since it was last published, publish it on its own to overwrite');
+        }
+
+        // An email-only post would end up on the site instead of in inboxes
+        if (metadata.newsletter && metadata.emailOnly) {
+            return stop('skipped', 'Email-only posts have to be sent from the publish dialog');
+        }
+
+        const lookups = await this.getLookups(api, site);
+
+        // Authors must match staff users
+        let authorIds: string[] = [];
+        if (metadata.authors.length > 0) {
+            if (!lookups.users) {
+                return stop('failed', `Could not load staff users: ${lookups.usersError}`);
+            }
+            const authors = resolveAuthors(lookups.users, metadata.authors);
+            if (authors.unknown.length > 0) {
+                return stop('failed', `Unknown author${authors.unknown.length === 1 ? '' : 's'} in frontmatter: ${authors.unknown.join(', ')}`);
+            }
+            authorIds = authors.ids;
+        }
+
+        // Tiers must exist when access is limited to them
+        let tierIds: string[] = [];
+        if (metadata.visibility === 'tiers') {
+            const tiers = await this.getTiers(api, lookups);
+            if (!tiers) {
+                return stop('failed', `Could not load tiers: ${lookups.tiersError}`);
+            }
+            const resolved = resolveTiers(tiers, metadata.tiers);
+            if (resolved.missing.length > 0) {
+                return stop('failed', `Tiers not found on this site: ${resolved.missing.join(', ')}`);
+            }
+            if (resolved.ids.length === 0) {
+                return stop('failed', 'Visibility is set to tiers but no tiers are listed in frontmatter');
+            }
+            tierIds = resolved.ids;
+        }
+
+        // New tags need the publish dialog's confirmation, since a typo would create a duplicate tag
+        if (metadata.tags.length > 0 && !lookups.tags) {
+            return stop('failed', `Could not load tags: ${lookups.tagsError}`);
+        }
+        const { tags, newTags } = resolveTags(lookups.tags, metadata.tags);
+        if (newTags.length > 0) {
+            return stop('skipped', `${newTags.length === 1 ? 'Tag doesn\'t' : 'Tags don\'t'} exist in ghost yet: ${newTags.join(', ')}. Publish the note on its own to create ${newTags.length === 1 ? 'it' : 'them'}`);
+        }
+
+        const { images: allImages, seoImages } = collectPostImages(conversionResult, metadata.seo);
+
+        let html = conversionResult.html;
+        let seo: SeoFields = { ...metadata.seo };
+        let featureImageUrl: string | undefined;
+        let imageCount = 0;
+
+        if (allImages.length > 0) {
+            const uploader = new ImageUploader(
+                this.app.vault,
+                this.app.metadataCache,
+                file,
+                site,
+                this.plugin.settings.imageProcessing,
+                this.plugin.imageCache,
+                this.plugin.settings.imageProcessing.enabled && metadata.optimizeImages
+            );
+
+            const urlMap = new Map<string, string>();
+            const failures: string[] = [];
+            let finished = 0;
+            this.updateItem(item, 'running', `Uploading images 0/${allImages.length}...`);
+            await runWithConcurrency(allImages, UPLOAD_CONCURRENCY, async (image) => {
+                const result = await uploader.upload(api, image, () => {});
+                if (result.success) {
+                    urlMap.set(image.path, result.url);
+                } else {
+                    failures.push(`${image.path.split('/').pop()}: ${result.error}`);
+                }
+                finished++;
+                this.updateItem(item, 'running', `Uploading images ${finished}/${allImages.length}...`);
+            });
+            await uploader.saveCache();
+
+            // A post with missing images is worse than no post, so the note is left for a retry
+            if (failures.length > 0) {
+                const message = `${failures.length} image${failures.length === 1 ? '' : 's'} failed to upload (${failures.join(', ')})`;
+                return stop('failed', message, urlMap.size);
+            }
+
+            const uploaded = applyUploadedImages(html, conversionResult, seo, seoImages, urlMap);
+            html = uploaded.html;
+            featureImageUrl = uploaded.featureImageUrl;
+            seo = uploaded.seo;
+            imageCount = urlMap.size;
+        }
+
+        // Build the post body in the configured format
+        const { content } = await buildPostContent(api, html, this.plugin.settings.postFormat);
+
+        this.updateItem(item, 'running', existingPost ? `Updating ${type}...` : `Creating ${type}...`);
+
+        const payload = buildPostPayload({
+            title: metadata.title,
+            status: metadata.status,
+            slug: metadata.slug,
+            tags,
+            publishedAt: metadata.publishedAt,
+            featured: existingPost?.featured ?? false,
+            seo,
+            authorIds,
+            visibility: metadata.visibility,
+            tierIds,
+            emailOnly: false
+        }, content, featureImageUrl, existingPost, metadata.ghostUpdatedAt);
+
+        // Newsletters are never sent from a batch
+        const result = existingPost
+            ? await api.updatePost(existingPost.id, payload, type)
+            : await api.createPost(payload, type);
+        await this.plugin.history.recordAttempt(file.path, site, type, existingPost, imageCount, result.success ? { post: result.post } : { error: result.error });
+        if (!result.success) {
+            return { state: 'failed', message: result.error };
+        }
+
+        await this.plugin.handlePublished(file, result.post, site, type, !existingPost);
+
+        return {
+            state: 'published',
+            message: `${existingPost ? 'Updated' : 'Created'}${metadata.newsletter ? ' (newsletter not sent)' : ''}`,
+            url: result.post.url
+        };
+    }
+
+    /**
+     * Replace the progress list with a report of what happened to each note
+     */
+    private renderSummary() {
+        const published = this.items.filter(item => item.state === 'published');
+        const failed = this.items.filter(item => item.state === 'failed');
+        const skipped = this.items.filter(item => item.state === 'skipped');
+
+        const summary = `Published ${published.length}, failed ${failed.length}, skipped ${skipped.length}`;
+        this.setStatus(summary);
+        new Notice(summary);
+
+        const listEl = this.listEl;
+        if (!listEl) {
+            return;
+        }
+        listEl.empty();
+        listEl.removeClass('ghosty-posty-upload-list');
+        listEl.addClass('ghosty-posty-batch-summary');
+
+        const sections: { title: string; items: BatchItem[] }[] = [
+            { title: 'Published', items: published },
+            { title: 'Failed', items: failed },
+            { title: 'Skipped', items: skipped }
+        ];
+        for (const section of sections) {
+            if (section.items.length === 0) {
+                continue;
+            }
+            const sectionEl = listEl.createEl('li');
+            sectionEl.createEl('h4', { text: `${section.title} (${section.items.length})` });
+            const itemsEl = sectionEl.createEl('ul');
+            for (const item of section.items) {
+                const rowEl = itemsEl.createEl('li', { cls: `is-${item.state}` });
+
+                // The note may have been archived, but the file keeps its current path
+                const noteLink = rowEl.createEl('a', { text: item.file.basename, href: '#' });
+                noteLink.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    void this.app.workspace.openLinkText(item.file.path, '', false);
+                    this.close();
+                });
+
+                if (item.url) {
+                    rowEl.appendText(' · ');
+                    rowEl.createEl('a', { text: 'View in ghost', href: item.url });
+                }
+                rowEl.createDiv({ cls: 'ghosty-posty-muted', text: item.message });
+            }
+        }
+    }
+
+    onClose() {
+        // Closing the modal stops the batch after the current note
+        this.stopped = true;
+
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,272 @@
+import { App, Modal } from 'obsidian';
+import { GhostPostResponse, GhostSite, PostSnapshot, PostType } from './types';
+import { DiffLine, diffLines, hasChanges } from './diff';
+
+type GhostPostData = GhostPostResponse['posts'][0];
+type Tag = { name: string; slug: string };
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+/**
+ * A linked post as it is in ghost, with the note and the snapshot of the last publish
+ */
+export interface Comparison {
+    site: GhostSite;
+    type: PostType;
+    post: GhostPostData;
+    // The post's HTML converted to markdown, comparable with snapshot content
+    remoteContent: string;
+    snapshot: PostSnapshot | null;
+    // ghost_updated_at from the note's frontmatter
+    lastUpdatedAt: string | undefined;
+    noteTitle: string;
+    // After tag mappings
+    noteTags: string[];
+    // Markdown without frontmatter
+    noteContent: string;
+    // The note converted the way ghost content is, for comparing when there's no snapshot
+    normalizedNote: string;
+}
+
+/**
+ * Whether a note tag (a name, or a slug from the tag mappings) is a ghost tag
+ */
+export function matchesTag(noteTag: string, tag: Tag): boolean {
+    const value = noteTag.trim().toLowerCase();
+    return value === tag.name.toLowerCase() || value === tag.slug;
+}
+
+/**
+ * Show how the linked post and the note have changed since the last publish, then
+ * let the user overwrite ghost with the note or pull ghost's version into the note
+ */
+export class CompareModal extends Modal {
+    private comparison: Comparison;
+    private onOverwrite: () => void;
+    private onPull: () => void;
+
+    constructor(app: App, comparison: Comparison, onOverwrite: () => void, onPull: () => void) {
+        super(app);
+        this.comparison = comparison;
+        this.onOverwrite = onOverwrite;
+        this.onPull = onPull;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { site, type, post, snapshot } = this.comparison;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+        contentEl.addClass('ghosty-posty-compare');
+
+        contentEl.createEl('h2', { text: 'Compare with ghost' });
+
+        const summaryEl = contentEl.createDiv({ cls: 'ghosty-posty-mode' });
+        const postDiv = summaryEl.createDiv({ cls: 'ghosty-posty-field' });
+        postDiv.createEl('strong', { text: `Linked ${type}: ` });
+        postDiv.createEl('span', { text: `${post.title} (${post.status} on ${site.name})` });
+
+        // The frontmatter is also kept current by status changes made from the plugin
+        const baseUpdatedAt = this.comparison.lastUpdatedAt ?? snapshot?.updatedAt;
+        const remoteChanged = baseUpdatedAt !== undefined && new Date(baseUpdatedAt).getTime() !== new Date(post.updated_at).getTime();
+        summaryEl.createDiv({
+            cls: `ghosty-posty-field${remoteChanged ? ' ghosty-posty-conflict' : ''}`,
+            text: baseUpdatedAt === undefined
+                ? `Last edited in ghost ${this.formatDate(post.updated_at)}`
+                : remoteChanged
+                    ? `Edited in ghost ${this.formatDate(post.updated_at)}, after it was last published from this note`
+                    : 'Not edited in ghost since it was last published from this note'
+        });
+
+        if (snapshot) {
+            const noteChanged = snapshot.note !== this.comparison.noteContent;
+            summaryEl.createDiv({
+                cls: 'ghosty-posty-field',
+                text: noteChanged
+                    ? `The note was edited since it was last published ${this.formatDate(snapshot.publishedAt)}`
+                    : `The note wasn't edited since it was last published ${this.formatDate(snapshot.publishedAt)}`
+            });
+            this.renderSnapshotChanges(contentEl, snapshot);
+        } else {
+            summaryEl.createDiv({
+                cls: 'ghosty-posty-field ghosty-posty-muted',
+                text: `There's no snapshot of the last publish from this vault, so the note is compared with ghost directly. Formatting ghost doesn't support can show up as differences.`
+            });
+            this.renderDirectChanges(contentEl);
+        }
+
+        contentEl.createDiv({
+            cls: 'ghosty-posty-muted',
+            text: `Overwrite opens the publish dialog to replace the ${type} in ghost with the note. Pull into note replaces the note's content, title and tags with ghost's version.`
+        });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'ghosty-posty-buttons' });
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.close());
+
+        const pullButton = buttonContainer.createEl('button', { text: 'Pull into note' });
+        pullButton.addEventListener('click', () => {
+            this.close();
+            this.onPull();
+        });
+
+        const overwriteButton = buttonContainer.createEl('button', {
+            text: 'Overwrite',
+            cls: remoteChanged ? 'mod-warning' : 'mod-cta'
+        });
+        overwriteButton.addEventListener('click', () => {
+            this.close();
+            this.onOverwrite();
+        });
+    }
+
+    /**
+     * Changes on each side since the last publish
+     */
+    private renderSnapshotChanges(contentEl: HTMLElement, snapshot: PostSnapshot) {
+        const { post, noteTitle, noteTags, remoteContent, noteContent } = this.comparison;
+        const remoteTags = post.tags ?? [];
+        let changed = false;
+
+        const fieldsEl = contentEl.createDiv({ cls: 'ghosty-posty-compare-fields' });
+        if (post.title !== snapshot.title) {
+            this.renderField(fieldsEl, 'Title changed in ghost', `${snapshot.title} → ${post.title}`);
+            changed = true;
+        }
+        if (noteTitle !== snapshot.title) {
+            this.renderField(fieldsEl, 'Title changed in the note', `${snapshot.title} → ${noteTitle}`);
+            changed = true;
+        }
+
+        const remoteTagChanges = this.describeTagChanges(
+            remoteTags.filter(tag => !snapshot.tags.some(old => old.slug === tag.slug)).map(tag => tag.name),
+            snapshot.tags.filter(old => !remoteTags.some(tag => tag.slug === old.slug)).map(tag => tag.name)
+        );
+        if (remoteTagChanges) {
+            this.renderField(fieldsEl, 'Tags changed in ghost', remoteTagChanges);
+            changed = true;
+        }
+        const noteTagChanges = this.describeTagChanges(
+            noteTags.filter(noteTag => !snapshot.tags.some(tag => matchesTag(noteTag, tag))),
+            snapshot.tags.filter(tag => !noteTags.some(noteTag => matchesTag(noteTag, tag))).map(tag => tag.name)
+        );
+        if (noteTagChanges) {
+            this.renderField(fieldsEl, 'Tags changed in the note', noteTagChanges);
+            changed = true;
+        }
+
+        const remoteDiff = diffLines(snapshot.content, remoteContent);
+        if (hasChanges(remoteDiff)) {
+            contentEl.createEl('h4', { text: 'Content changed in ghost' });
+            this.renderDiff(contentEl, remoteDiff);
+            changed = true;
+        }
+        const noteDiff = diffLines(snapshot.note, noteContent);
+        if (hasChanges(noteDiff)) {
+            contentEl.createEl('h4', { text: 'Content changed in the note' });
+            this.renderDiff(contentEl, noteDiff);
+            changed = true;
+        }
+
+        if (!changed) {
+            fieldsEl.createDiv({ cls: 'ghosty-posty-muted', text: 'No changes on either side' });
+        }
+    }
+
+    /**
+     * Differences between the note and the post, when there's no snapshot to tell who changed what
+     */
+    private renderDirectChanges(contentEl: HTMLElement) {
+        const { post, noteTitle, noteTags, remoteContent, normalizedNote } = this.comparison;
+        const remoteTags = post.tags ?? [];
+        let changed = false;
+
+        const fieldsEl = contentEl.createDiv({ cls: 'ghosty-posty-compare-fields' });
+        if (post.title !== noteTitle) {
+            this.renderField(fieldsEl, 'Title', `${post.title} (ghost) → ${noteTitle} (note)`);
+            changed = true;
+        }
+
+        const tagChanges = this.describeTagChanges(
+            noteTags.filter(noteTag => !remoteTags.some(tag => matchesTag(noteTag, tag))),
+            remoteTags.filter(tag => !noteTags.some(noteTag => matchesTag(noteTag, tag))).map(tag => tag.name)
+        );
+        if (tagChanges) {
+            this.renderField(fieldsEl, 'Tags in the note compared with ghost', tagChanges);
+            changed = true;
+        }
+
+        const diff = diffLines(remoteContent, normalizedNote);
+        if (hasChanges(diff)) {
+            contentEl.createEl('h4', { text: 'Content (ghost → note)' });
+            this.renderDiff(contentEl, diff);
+            changed = true;
+        }
+
+        if (!changed) {
+            fieldsEl.createDiv({ cls: 'ghosty-posty-muted', text: 'The note matches ghost' });
+        }
+    }
+
+    private renderField(containerEl: HTMLElement, label: string, value: string) {
+        const fieldDiv = containerEl.createDiv({ cls: 'ghosty-posty-field' });
+        fieldDiv.createEl('strong', { text: `${label}: ` });
+        fieldDiv.createEl('span', { text: value });
+    }
+
+    private describeTagChanges(added: string[], removed: string[]): string {
+        return [
+            ...(added.length > 0 ? [`added ${added.join(', ')}`] : []),
+            ...(removed.length > 0 ? [`removed ${removed.join(', ')}`] : [])
+        ].join('; ');
+    }
+
+    /**
+     * Show changed lines with a little context, collapsing long unchanged stretches
+     */
+    private renderDiff(containerEl: HTMLElement, diff: DiffLine[]) {
+        const diffEl = containerEl.createDiv({ cls: 'ghosty-posty-diff' });
+
+        // Keep lines that are changed or close to a change
+        const shown = diff.map(() => false);
+        diff.forEach((line, index) => {
+            if (line.type !== 'same') {
+                for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(diff.length - 1, index + CONTEXT_LINES); i++) {
+                    shown[i] = true;
+                }
+            }
+        });
+
+        let skipped = 0;
+        diff.forEach((line, index) => {
+            if (!shown[index]) {
+                skipped++;
+                return;
+            }
+            if (skipped > 0) {
+                diffEl.createDiv({ cls: 'ghosty-posty-diff-skip', text: `${skipped} unchanged line${skipped === 1 ? '' : 's'}` });
+                skipped = 0;
+            }
+            const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+            diffEl.createDiv({
+                cls: `ghosty-posty-diff-line${line.type === 'same' ? '' : ` is-${line.type}`}`,
+                text: `${marker} ${line.text}`
+            });
+        });
+        if (skipped > 0) {
+            diffEl.createDiv({ cls: 'ghosty-posty-diff-skip', text: `${skipped} unchanged line${skipped === 1 ? '' : 's'}` });
+        }
+    }
+
+    private formatDate(isoDate: string): string {
+        return new Date(isoDate).toLocaleString();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
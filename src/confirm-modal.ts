@@ -0,0 +1,48 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Ask the user to confirm an action that changes or removes a post in ghost
+ */
+export class ConfirmModal extends Modal {
+    private title: string;
+    private message: string;
+    private confirmText: string;
+    private onConfirm: () => void;
+
+    constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void) {
+        super(app);
+        this.title = title;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+
+        contentEl.createEl('h2', { text: this.title });
+        contentEl.createEl('p', { text: this.message });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'ghosty-posty-buttons' });
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.close());
+
+        const confirmButton = buttonContainer.createEl('button', {
+            text: this.confirmText,
+            cls: 'mod-warning'
+        });
+        confirmButton.addEventListener('click', () => {
+            this.close();
+            this.onConfirm();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * Convert a Date to the format required by datetime-local input (YYYY-MM-DDTHH:mm)
+ */
+export function toLocalDatetimeString(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${year}-${month}-${day}T${hours}:${minutes}`;
+}
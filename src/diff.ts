@@ -0,0 +1,79 @@
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many line pairs the changed middle is shown as removed then added, without matching lines
+const MAX_TABLE_SIZE = 4_000_000;
+
+/**
+ * Compare two texts line by line, using the longest common subsequence of lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split(/\r?\n/);
+    const b = after.split(/\r?\n/);
+
+    // Unchanged lines at the start and end are common and cheap to skip
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let end = 0;
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+        end++;
+    }
+
+    const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+    const tail: DiffLine[] = a.slice(a.length - end).map(text => ({ type: 'same', text }));
+    const oldLines = a.slice(start, a.length - end);
+    const newLines = b.slice(start, b.length - end);
+
+    if (oldLines.length * newLines.length > MAX_TABLE_SIZE) {
+        return [
+            ...head,
+            ...oldLines.map((text): DiffLine => ({ type: 'removed', text })),
+            ...newLines.map((text): DiffLine => ({ type: 'added', text })),
+            ...tail
+        ];
+    }
+
+    // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+    const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lengths[i][j] = oldLines[i] === newLines[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length && j < newLines.length) {
+        if (oldLines[i] === newLines[j]) {
+            middle.push({ type: 'same', text: oldLines[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            middle.push({ type: 'removed', text: oldLines[i++] });
+        } else {
+            middle.push({ type: 'added', text: newLines[j++] });
+        }
+    }
+    while (i < oldLines.length) {
+        middle.push({ type: 'removed', text: oldLines[i++] });
+    }
+    while (j < newLines.length) {
+        middle.push({ type: 'added', text: newLines[j++] });
+    }
+
+    return [...head, ...middle, ...tail];
+}
+
+/**
+ * Whether a diff has any added or removed lines
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+    return diff.some(line => line.type !== 'same');
+}
@@ -0,0 +1,40 @@
+import { GhostPostResponse, GhostSite, PostType } from './types';
+
+/**
+ * Write a ghost post's identity and URL into a frontmatter object
+ * Used with fileManager.processFrontMatter after publishing or importing
+ */
+export function applyGhostPostFields(frontmatter: Record<string, unknown>, post: GhostPostResponse['posts'][0], site: GhostSite, type: PostType = 'post'): void {
+    // Republishing finds the post under the same endpoint
+    if (type === 'page') {
+        frontmatter.type = 'page';
+    } else if (frontmatter.type === 'page') {
+        delete frontmatter.type;
+    }
+    // The ID still matches after the site is renamed
+    frontmatter.ghost_site = site.id;
+    frontmatter.ghost_id = post.id;
+    frontmatter.ghost_slug = post.slug;
+    frontmatter.ghost_url = post.url;
+    frontmatter.ghost_status = post.status;
+    if (post.published_at) {
+        frontmatter.ghost_published_at = post.published_at;
+    } else {
+        // Drafts have no publish time
+        delete frontmatter.ghost_published_at;
+    }
+    frontmatter.ghost_updated_at = post.updated_at;
+}
+
+/**
+ * Remove the link to a ghost post from a frontmatter object, e.g. after the post is deleted
+ * ghost_site is kept, since it also chooses the site the note publishes to
+ */
+export function clearGhostPostFields(frontmatter: Record<string, unknown>): void {
+    delete frontmatter.ghost_id;
+    delete frontmatter.ghost_slug;
+    delete frontmatter.ghost_url;
+    delete frontmatter.ghost_status;
+    delete frontmatter.ghost_published_at;
+    delete frontmatter.ghost_updated_at;
+}
@@ -1,5 +1,6 @@
 import { requestUrl, RequestUrlResponse } from 'obsidian';
-import { GhostPostPayload, GhostPostResponse, GhostSiteResponse, GhostErrorResponse, GhostImageUploadResponse } from './types';
+import { GhostPostPayload, GhostPostResponse, GhostSiteResponse, GhostErrorResponse, GhostImageUploadResponse, GhostPagination, GhostBookmarkMetadata, GhostOembedResponse, GhostApiError, GhostErrorKind, PostStatus, PostType, GhostNewsletter, GhostNewslettersResponse, GhostMembersResponse, GhostTier, GhostTiersResponse, GhostUser, GhostUsersResponse, GhostSiteTag, GhostTagsResponse } from './types';
+import { DEFAULT_RETRY_OPTIONS, getBackoffDelay, parseRetryAfter, sleep } from './retry';
 
 /**
  * Convert a hex string to Uint8Array
@@ -88,6 +89,185 @@ async function generateGhostToken(apiKey: string): Promise<string> {
     return `${signatureInput}.${signature}`;
 }
 
+/**
+ * Send a post to a newsletter when it's published
+ */
+export interface EmailOptions {
+    // Newsletter slug
+    newsletter: string;
+    // "all", "status:free", "status:-free" or an NQL member filter
+    segment: string;
+}
+
+/**
+ * Get the query string for a post write
+ * HTML is converted by Ghost (source=html); Lexical documents are stored as-is
+ * Ghost emails the post when it's published with a newsletter in the query
+ * The response includes the post's HTML as ghost renders it
+ */
+function getWriteQuery(payload: GhostPostPayload, email?: EmailOptions): string {
+    const params = new URLSearchParams({ formats: 'html' });
+    if (!payload.posts[0]?.lexical) {
+        params.set('source', 'html');
+    }
+    if (email) {
+        params.set('newsletter', email.newsletter);
+        params.set('email_segment', email.segment);
+    }
+    return `?${params.toString()}`;
+}
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+/**
+ * Get the API resource name for a post type; pages use /pages/ and a "pages" key
+ */
+function getResource(type: PostType): 'posts' | 'pages' {
+    return type === 'page' ? 'pages' : 'posts';
+}
+
+/**
+ * A failed API call: an actionable message for the user plus the structured error
+ */
+export type GhostApiFailure = { success: false; error: string; details: GhostApiError };
+
+/**
+ * Called before a failed request is retried
+ */
+export type RetryCallback = (error: GhostApiError, attempt: number, delayMs: number) => void;
+
+interface RequestOptions {
+    // Raw body and content type, for uploads; otherwise the body is sent as JSON
+    body?: object | ArrayBuffer;
+    contentType?: string;
+    // Also retry network and server errors for a POST; only for requests that are harmless to repeat
+    retryPost?: boolean;
+    // Don't send Accept-Version (used while negotiating it)
+    skipVersion?: boolean;
+    onRetry?: RetryCallback;
+}
+
+// Don't wait longer than this for a Retry-After; report the rate limit instead
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+// Server errors that usually clear up on their own
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+// Accept-Version header negotiated per Ghost URL, shared by all clients in the session
+// The probe is kept while in flight so concurrent requests share it; null means send no header
+const acceptVersions = new Map<string, Promise<string | null>>();
+
+/**
+ * Read a response header regardless of its casing
+ */
+function getHeader(response: RequestUrlResponse, name: string): string | undefined {
+    const key = Object.keys(response.headers ?? {}).find(header => header.toLowerCase() === name);
+    return key ? response.headers[key] : undefined;
+}
+
+/**
+ * Turn an error response into a structured error
+ */
+function parseErrorResponse(response: RequestUrlResponse): GhostApiError {
+    let first: GhostErrorResponse['errors'][0] | undefined;
+    try {
+        first = (response.json as GhostErrorResponse)?.errors?.[0];
+    } catch {
+        // Not JSON, e.g. a proxy's HTML error page
+    }
+
+    const status = response.status;
+    const type = first?.type;
+    let kind: GhostErrorKind = 'unknown';
+    if (status === 401 || status === 403 || type === 'UnauthorizedError' || type === 'NoPermissionError') {
+        kind = 'auth';
+    } else if (status === 409 || type === 'UpdateCollisionError') {
+        kind = 'conflict';
+    } else if (status === 429 || type === 'TooManyRequestsError') {
+        kind = 'rateLimit';
+    } else if (status === 406 || status === 426 || type === 'RequestNotAcceptableError' || type === 'RequestUpgradeRequiredError') {
+        kind = 'version';
+    } else if (status === 404) {
+        kind = 'notFound';
+    } else if (status === 400 || status === 422 || type === 'ValidationError' || type === 'BadRequestError') {
+        kind = 'validation';
+    } else if (status >= 500) {
+        kind = 'server';
+    }
+
+    return {
+        kind,
+        message: first?.message || '',
+        status,
+        type,
+        context: first?.context || undefined,
+        property: first?.property || undefined,
+        retryAfter: parseRetryAfter(getHeader(response, 'retry-after'))
+    };
+}
+
+/**
+ * Explain an error in a way that tells the user what to do next
+ */
+function describeError(error: GhostApiError, ghostUrl: string): string {
+    const detail = error.context ? ` ${error.context}` : '';
+
+    switch (error.kind) {
+        case 'auth':
+            return `Ghost rejected the admin API key${error.message ? ` (${error.message})` : ''}. Check the key in settings and that its custom integration still exists in ghost admin.`;
+        case 'validation':
+            return `Ghost rejected the ${error.property ? `"${error.property}" field` : 'request'}: ${error.message || `HTTP ${error.status}`}${detail}`;
+        case 'version':
+            return `This ghost site doesn't support the request${error.message ? ` (${error.message})` : ''}. Update ghost, or switch the post format to HTML in settings.`;
+        case 'rateLimit':
+            return error.retryAfter !== undefined
+                ? `Ghost is limiting requests. Try again in ${error.retryAfter} seconds.`
+                : 'Ghost is limiting requests. Wait a minute and try again.';
+        case 'conflict':
+            return 'This was edited in ghost admin since it was last synced, so ghost rejected the change to keep those edits. Run "Compare with ghost" on the note, or refresh, and try again.';
+        case 'notFound':
+            return error.message
+                ? `${error.message}${detail}`
+                : `Nothing found at ${ghostUrl}. Check the ghost URL in settings.`;
+        case 'network':
+            return `Could not reach ${ghostUrl} (${error.message}). Check the ghost URL in settings and your internet connection.`;
+        case 'server':
+            return `Ghost had a server error (HTTP ${error.status}${error.message ? `: ${error.message}` : ''}). Try again later.`;
+        default:
+            return `${error.message || `HTTP ${error.status}`}${detail}`;
+    }
+}
+
+/**
+ * Whether a failed request is worth sending again
+ */
+function isRetryable(error: GhostApiError, method: string, retryPost: boolean): boolean {
+    if (error.kind === 'rateLimit') {
+        return error.retryAfter === undefined || error.retryAfter <= MAX_RETRY_AFTER_SECONDS;
+    }
+
+    const transient = error.kind === 'network' || (error.status !== null && TRANSIENT_STATUSES.includes(error.status));
+    // A write that failed mid-flight may still have been applied: repeating a POST could create a duplicate,
+    // and repeating a PUT sends an updated_at that is now stale, which ghost rejects as a conflict
+    const isWrite = method === 'POST' || method === 'PUT';
+    return transient && (!isWrite || retryPost);
+}
+
+/**
+ * Format a Ghost version (e.g. "5.82.1") as an Accept-Version header value ("v5.82")
+ */
+function toAcceptVersion(version: string): string | null {
+    const match = version.match(/^(\d+)\.(\d+)/);
+    return match ? `v${match[1]}.${match[2]}` : null;
+}
+
+/**
+ * Get the Accept-Version header value for the version a site reports
+ */
+function getSiteAcceptVersion(data: GhostSiteResponse): string | null {
+    return data.site?.version ? toAcceptVersion(data.site.version) : null;
+}
+
 export class GhostAPI {
     private ghostUrl: string;
     private apiKey: string;
@@ -106,165 +286,297 @@ export class GhostAPI {
         return `Ghost ${token}`;
     }
 
+    private fail(error: GhostApiError): GhostApiFailure {
+        return { success: false, error: describeError(error, this.ghostUrl), details: error };
+    }
+
     /**
-     * Make an API request to Ghost
+     * Get the Accept-Version header for this site, asking the site for its version the first time
      */
-    private async request(
-        method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-        endpoint: string,
-        body?: object
-    ): Promise<RequestUrlResponse> {
-        const token = await this.getAuthHeader();
-        const url = `${this.ghostUrl}/ghost/api/admin${endpoint}`;
+    private getAcceptVersion(): Promise<string | null> {
+        let acceptVersion = acceptVersions.get(this.ghostUrl);
+        if (!acceptVersion) {
+            // Without a version the request is still sent; Ghost then answers with its default
+            // A failed probe isn't repeated until the connection is tested again
+            acceptVersion = this.call<GhostSiteResponse>('GET', '/site/', { skipVersion: true })
+                .then(result => result.success ? getSiteAcceptVersion(result.data) : null);
+            acceptVersions.set(this.ghostUrl, acceptVersion);
+        }
+        return acceptVersion;
+    }
 
-        const options: Parameters<typeof requestUrl>[0] = {
-            url,
-            method,
-            headers: {
-                'Authorization': token,
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
+    /**
+     * Send a single request to the admin API
+     */
+    private async send(method: 'GET' | 'POST' | 'PUT' | 'DELETE', endpoint: string, options: RequestOptions): Promise<RequestUrlResponse> {
+        const headers: Record<string, string> = {
+            'Authorization': await this.getAuthHeader(),
+            'Content-Type': options.contentType ?? 'application/json',
+            'Accept': 'application/json'
+        };
+
+        if (!options.skipVersion) {
+            const acceptVersion = await this.getAcceptVersion();
+            if (acceptVersion) {
+                headers['Accept-Version'] = acceptVersion;
             }
+        }
+
+        const requestOptions: Parameters<typeof requestUrl>[0] = {
+            url: `${this.ghostUrl}/ghost/api/admin${endpoint}`,
+            method,
+            headers,
+            // Return error responses instead of throwing so Ghost's error details are kept
+            throw: false
         };
 
-        if (body) {
-            options.body = JSON.stringify(body);
+        if (options.body instanceof ArrayBuffer) {
+            requestOptions.body = options.body;
+        } else if (options.body) {
+            requestOptions.body = JSON.stringify(options.body);
         }
 
-        return requestUrl(options);
+        return requestUrl(requestOptions);
     }
 
     /**
-     * Test the connection to Ghost
-     * Returns the site info if successful
+     * Make an API request to Ghost, retrying rate limits and transient failures
      */
-    async testConnection(): Promise<{ success: true; siteName: string } | { success: false; error: string }> {
-        try {
-            const response = await this.request('GET', '/site/');
-
-            if (response.status >= 200 && response.status < 300) {
-                const data = response.json as GhostSiteResponse;
-                return {
-                    success: true,
-                    siteName: data.site?.title || 'Unknown Site'
-                };
-            } else {
-                const errorData = response.json as GhostErrorResponse;
-                return {
-                    success: false,
-                    error: errorData.errors?.[0]?.message || `HTTP ${response.status}`
-                };
+    private async call<T>(
+        method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+        endpoint: string,
+        options: RequestOptions = {}
+    ): Promise<{ success: true; data: T } | GhostApiFailure> {
+        for (let attempt = 0; ; attempt++) {
+            let error: GhostApiError;
+            try {
+                const response = await this.send(method, endpoint, options);
+                if (response.status >= 200 && response.status < 300) {
+                    // Deletes respond with no content
+                    return { success: true, data: (response.status === 204 ? null : response.json) as T };
+                }
+                error = parseErrorResponse(response);
+            } catch (e) {
+                const message = e instanceof Error ? e.message : 'Unknown error';
+                // A malformed key fails before anything is sent
+                if (message.startsWith('Invalid API key format')) {
+                    return this.fail({ kind: 'auth', message, status: null });
+                }
+                error = { kind: 'network', message, status: null };
             }
-        } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
+
+            if (attempt >= DEFAULT_RETRY_OPTIONS.retries || !isRetryable(error, method, options.retryPost ?? false)) {
+                return this.fail(error);
+            }
+
+            const delayMs = error.retryAfter !== undefined ? error.retryAfter * 1000 : getBackoffDelay(attempt);
+            options.onRetry?.(error, attempt + 1, delayMs);
+            await sleep(delayMs);
         }
     }
 
     /**
-     * Create a new post on Ghost
+     * Test the connection to Ghost
+     * Returns the site info if successful, and refreshes the negotiated API version
      */
-    async createPost(payload: GhostPostPayload): Promise<{ success: true; post: GhostPostResponse['posts'][0] } | { success: false; error: string }> {
-        try {
-            // Use source=html to let Ghost convert HTML to its internal format
-            const response = await this.request('POST', '/posts/?source=html', payload);
-
-            if (response.status >= 200 && response.status < 300) {
-                const data = response.json as GhostPostResponse;
-                return {
-                    success: true,
-                    post: data.posts[0]
-                };
-            } else {
-                const errorData = response.json as GhostErrorResponse;
-                return {
-                    success: false,
-                    error: errorData.errors?.[0]?.message || `HTTP ${response.status}`
-                };
-            }
-        } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
+    async testConnection(): Promise<{ success: true; siteName: string; version: string | null } | GhostApiFailure> {
+        const result = await this.call<GhostSiteResponse>('GET', '/site/', { skipVersion: true });
+        if (!result.success) {
+            return result;
         }
+
+        acceptVersions.set(this.ghostUrl, Promise.resolve(getSiteAcceptVersion(result.data)));
+        return {
+            success: true,
+            siteName: result.data.site?.title || 'Unknown Site',
+            version: result.data.site?.version ?? null
+        };
+    }
+
+    /**
+     * Create a new post (or page) on Ghost
+     */
+    async createPost(payload: GhostPostPayload, type: PostType = 'post', email?: EmailOptions): Promise<{ success: true; post: GhostPostData } | GhostApiFailure> {
+        const resource = getResource(type);
+        const result = await this.call<Record<string, GhostPostData[]>>('POST', `/${resource}/${getWriteQuery(payload, email)}`, {
+            body: { [resource]: payload.posts }
+        });
+        return result.success ? { success: true, post: result.data[resource][0] } : result;
+    }
+
+    /**
+     * Fetch a single post (or page) by its Ghost ID, including its HTML
+     */
+    async getPost(id: string, type: PostType = 'post'): Promise<{ success: true; post: GhostPostData } | GhostApiFailure> {
+        const resource = getResource(type);
+        const result = await this.call<Record<string, GhostPostData[]>>('GET', `/${resource}/${encodeURIComponent(id)}/?include=tags,authors&formats=html`);
+        return result.success ? { success: true, post: result.data[resource][0] } : result;
+    }
+
+    /**
+     * Fetch one page of posts, newest first, including their HTML and tags
+     */
+    async getPosts(page: number, limit = 50): Promise<{ success: true; posts: GhostPostData[]; pagination: GhostPagination | null } | GhostApiFailure> {
+        const result = await this.call<GhostPostResponse>('GET', `/posts/?formats=html&include=tags&limit=${limit}&page=${page}&order=published_at%20desc`);
+        return result.success
+            ? { success: true, posts: result.data.posts, pagination: result.data.meta?.pagination ?? null }
+            : result;
+    }
+
+    /**
+     * Update an existing post (or page) on Ghost
+     * The payload must carry the updated_at value from the last sync; Ghost rejects
+     * the update with a 409 (a "conflict" error) if the post has been edited since then
+     */
+    async updatePost(id: string, payload: GhostPostPayload, type: PostType = 'post', email?: EmailOptions): Promise<{ success: true; post: GhostPostData } | GhostApiFailure> {
+        const resource = getResource(type);
+        const result = await this.call<Record<string, GhostPostData[]>>('PUT', `/${resource}/${encodeURIComponent(id)}/${getWriteQuery(payload, email)}`, {
+            body: { [resource]: payload.posts }
+        });
+        return result.success ? { success: true, post: result.data[resource][0] } : result;
+    }
+
+    /**
+     * Change the status of a post (or page), e.g. to revert it to a draft or unschedule it
+     * updatedAt must be the post's current updated_at, so edits made in ghost in the meantime aren't lost
+     */
+    async updatePostStatus(id: string, status: PostStatus, updatedAt: string, type: PostType = 'post'): Promise<{ success: true; post: GhostPostData } | GhostApiFailure> {
+        const resource = getResource(type);
+        const result = await this.call<Record<string, GhostPostData[]>>('PUT', `/${resource}/${encodeURIComponent(id)}/`, {
+            body: { [resource]: [{ status, updated_at: updatedAt }] }
+        });
+        return result.success ? { success: true, post: result.data[resource][0] } : result;
+    }
+
+    /**
+     * Move a scheduled post to a new publish time
+     */
+    async reschedulePost(id: string, publishedAt: string, updatedAt: string, type: PostType = 'post'): Promise<{ success: true; post: GhostPostData } | GhostApiFailure> {
+        const resource = getResource(type);
+        const result = await this.call<Record<string, GhostPostData[]>>('PUT', `/${resource}/${encodeURIComponent(id)}/`, {
+            body: { [resource]: [{ published_at: publishedAt, updated_at: updatedAt }] }
+        });
+        return result.success ? { success: true, post: result.data[resource][0] } : result;
+    }
+
+    /**
+     * Permanently delete a post (or page)
+     */
+    async deletePost(id: string, type: PostType = 'post'): Promise<{ success: true } | GhostApiFailure> {
+        const result = await this.call<null>('DELETE', `/${getResource(type)}/${encodeURIComponent(id)}/`);
+        return result.success ? { success: true } : result;
+    }
+
+    /**
+     * List posts matching an NQL filter, without their content
+     */
+    async listPosts(filter: string, order: string, limit: number | 'all'): Promise<{ success: true; posts: GhostPostData[] } | GhostApiFailure> {
+        const query = new URLSearchParams({
+            filter,
+            order,
+            limit: String(limit),
+            fields: 'id,uuid,title,slug,url,status,featured,feature_image,created_at,updated_at,published_at'
+        });
+        const result = await this.call<GhostPostResponse>('GET', `/posts/?${query.toString()}`);
+        return result.success ? { success: true, posts: result.data.posts } : result;
+    }
+
+    /**
+     * Fetch the site's active newsletters
+     */
+    async getNewsletters(): Promise<{ success: true; newsletters: GhostNewsletter[] } | GhostApiFailure> {
+        const result = await this.call<GhostNewslettersResponse>('GET', '/newsletters/?filter=status:active&limit=all');
+        return result.success ? { success: true, newsletters: result.data.newsletters } : result;
+    }
+
+    /**
+     * Fetch all of the site's tags, including internal (#) tags
+     */
+    async getTags(): Promise<{ success: true; tags: GhostSiteTag[] } | GhostApiFailure> {
+        const result = await this.call<GhostTagsResponse>('GET', `/tags/?limit=all&filter=${encodeURIComponent('visibility:[public,internal]')}`);
+        return result.success ? { success: true, tags: result.data.tags } : result;
+    }
+
+    /**
+     * Fetch the site's staff users, who can be assigned as authors
+     */
+    async getUsers(): Promise<{ success: true; users: GhostUser[] } | GhostApiFailure> {
+        const result = await this.call<GhostUsersResponse>('GET', '/users/?limit=all');
+        return result.success ? { success: true, users: result.data.users } : result;
+    }
+
+    /**
+     * Fetch the site's active paid tiers, which posts can be limited to
+     */
+    async getTiers(): Promise<{ success: true; tiers: GhostTier[] } | GhostApiFailure> {
+        const result = await this.call<GhostTiersResponse>('GET', '/tiers/?filter=type:paid%2Bactive:true&limit=all');
+        return result.success ? { success: true, tiers: result.data.tiers } : result;
+    }
+
+    /**
+     * Count the members matching an NQL filter
+     */
+    async countMembers(filter: string): Promise<{ success: true; count: number } | GhostApiFailure> {
+        const result = await this.call<GhostMembersResponse>('GET', `/members/?limit=1&filter=${encodeURIComponent(filter)}`);
+        return result.success ? { success: true, count: result.data.meta.pagination.total } : result;
+    }
+
+    /**
+     * Fetch bookmark card metadata (title, description, icon) for a URL
+     */
+    async getBookmarkMetadata(url: string): Promise<{ success: true; metadata: GhostBookmarkMetadata } | GhostApiFailure> {
+        const result = await this.call<GhostOembedResponse>('GET', `/oembed/?type=bookmark&url=${encodeURIComponent(url)}`);
+        return result.success ? { success: true, metadata: result.data.metadata } : result;
     }
 
     /**
      * Upload an image to Ghost
+     * Failed uploads are retried; a repeated upload at worst leaves an unused copy on Ghost
      */
-    async uploadImage(filename: string, imageData: ArrayBuffer): Promise<{ success: true; url: string } | { success: false; error: string }> {
-        try {
-            const token = await this.getAuthHeader();
-            const url = `${this.ghostUrl}/ghost/api/admin/images/upload/`;
-
-            // Determine content type from filename
-            const ext = filename.split('.').pop()?.toLowerCase() || '';
-            const mimeTypes: Record<string, string> = {
-                'jpg': 'image/jpeg',
-                'jpeg': 'image/jpeg',
-                'png': 'image/png',
-                'gif': 'image/gif',
-                'webp': 'image/webp',
-                'svg': 'image/svg+xml'
-            };
-            const contentType = mimeTypes[ext] || 'application/octet-stream';
-
-            // Create multipart form data manually
-            const boundary = '----GhostyPostyBoundary' + Math.random().toString(36).substring(2);
-
-            // Build the multipart body
-            const header = `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\nContent-Type: ${contentType}\r\n\r\n`;
-            const footer = `\r\n--${boundary}--\r\n`;
-
-            // Convert header and footer to Uint8Array
-            const headerBytes = new TextEncoder().encode(header);
-            const footerBytes = new TextEncoder().encode(footer);
-            const imageBytes = new Uint8Array(imageData);
-
-            // Combine all parts
-            const body = new Uint8Array(headerBytes.length + imageBytes.length + footerBytes.length);
-            body.set(headerBytes, 0);
-            body.set(imageBytes, headerBytes.length);
-            body.set(footerBytes, headerBytes.length + imageBytes.length);
-
-            const response = await requestUrl({
-                url,
-                method: 'POST',
-                headers: {
-                    'Authorization': token,
-                    'Content-Type': `multipart/form-data; boundary=${boundary}`
-                },
-                body: body.buffer
-            });
-
-            if (response.status >= 200 && response.status < 300) {
-                const data = response.json as GhostImageUploadResponse;
-                if (data.images && data.images.length > 0) {
-                    return {
-                        success: true,
-                        url: data.images[0].url
-                    };
-                } else {
-                    return {
-                        success: false,
-                        error: 'No image URL returned from Ghost'
-                    };
-                }
-            } else {
-                const errorData = response.json as GhostErrorResponse;
-                return {
-                    success: false,
-                    error: errorData.errors?.[0]?.message || `HTTP ${response.status}`
-                };
-            }
-        } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
+    async uploadImage(filename: string, imageData: ArrayBuffer, onRetry?: RetryCallback): Promise<{ success: true; url: string } | GhostApiFailure> {
+        // Determine content type from filename
+        const ext = filename.split('.').pop()?.toLowerCase() || '';
+        const mimeTypes: Record<string, string> = {
+            'jpg': 'image/jpeg',
+            'jpeg': 'image/jpeg',
+            'png': 'image/png',
+            'gif': 'image/gif',
+            'webp': 'image/webp',
+            'svg': 'image/svg+xml'
+        };
+        const contentType = mimeTypes[ext] || 'application/octet-stream';
+
+        // Create multipart form data manually
+        const boundary = '----GhostyPostyBoundary' + Math.random().toString(36).substring(2);
+
+        // Build the multipart body
+        const header = `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\nContent-Type: ${contentType}\r\n\r\n`;
+        const footer = `\r\n--${boundary}--\r\n`;
+
+        // Convert header and footer to Uint8Array
+        const headerBytes = new TextEncoder().encode(header);
+        const footerBytes = new TextEncoder().encode(footer);
+        const imageBytes = new Uint8Array(imageData);
+
+        // Combine all parts
+        const body = new Uint8Array(headerBytes.length + imageBytes.length + footerBytes.length);
+        body.set(headerBytes, 0);
+        body.set(imageBytes, headerBytes.length);
+        body.set(footerBytes, headerBytes.length + imageBytes.length);
+
+        const result = await this.call<GhostImageUploadResponse>('POST', '/images/upload/', {
+            body: body.buffer,
+            contentType: `multipart/form-data; boundary=${boundary}`,
+            retryPost: true,
+            onRetry
+        });
+        if (!result.success) {
+            return result;
+        }
+
+        if (result.data.images && result.data.images.length > 0) {
+            return { success: true, url: result.data.images[0].url };
         }
+        return this.fail({ kind: 'unknown', message: 'No image URL returned from Ghost', status: null });
     }
 }
@@ -0,0 +1,178 @@
+import { App, Modal, Setting, Notice, TFile } from 'obsidian';
+import { PublishHistoryEntry } from './types';
+import { PublishHistory } from './publish-history';
+
+type ResultFilter = 'all' | 'succeeded' | 'failed';
+
+// Matching entries beyond this are left out of the list
+const MAX_SHOWN = 200;
+
+export class HistoryModal extends Modal {
+    private history: PublishHistory;
+
+    // Filter values
+    private query: string = '';
+    private result: ResultFilter = 'all';
+    private siteId: string = '';
+
+    // UI elements
+    private listEl: HTMLElement | null = null;
+
+    constructor(app: App, history: PublishHistory) {
+        super(app);
+        this.history = history;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+
+        contentEl.createEl('h2', { text: 'Publish history' });
+
+        const formSection = contentEl.createDiv({ cls: 'ghosty-posty-form' });
+
+        new Setting(formSection)
+            .setName('Search')
+            .addText(text => text
+                .setPlaceholder('Note, URL, device or error')
+                .onChange(value => {
+                    this.query = value.trim().toLowerCase();
+                    this.renderList();
+                }));
+
+        new Setting(formSection)
+            .setName('Result')
+            .addDropdown(dropdown => dropdown
+                .addOption('all', 'All')
+                .addOption('succeeded', 'Succeeded')
+                .addOption('failed', 'Failed')
+                .setValue(this.result)
+                .onChange(value => {
+                    this.result = value as ResultFilter;
+                    this.renderList();
+                }));
+
+        // Sites are taken from the entries, so removed sites can still be filtered
+        const sites = new Map<string, string>();
+        for (const entry of this.history.getEntries()) {
+            // Attempts whose site couldn't be resolved only show under all sites
+            if (entry.siteId) {
+                sites.set(entry.siteId, entry.siteName);
+            }
+        }
+        if (sites.size > 1) {
+            new Setting(formSection)
+                .setName('Site')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'All sites');
+                    for (const [id, name] of sites) {
+                        dropdown.addOption(id, name);
+                    }
+                    dropdown
+                        .setValue(this.siteId)
+                        .onChange(value => {
+                            this.siteId = value;
+                            this.renderList();
+                        });
+                });
+        }
+
+        this.listEl = contentEl.createDiv({ cls: 'ghosty-posty-history' });
+        this.renderList();
+    }
+
+    private matches(entry: PublishHistoryEntry): boolean {
+        if (this.result === 'succeeded' && entry.error) {
+            return false;
+        }
+        if (this.result === 'failed' && !entry.error) {
+            return false;
+        }
+        if (this.siteId && entry.siteId !== this.siteId) {
+            return false;
+        }
+        if (!this.query) {
+            return true;
+        }
+        return [entry.notePath, entry.url, entry.device, entry.error, entry.status]
+            .some(value => value?.toLowerCase().includes(this.query));
+    }
+
+    private renderList() {
+        const listEl = this.listEl;
+        if (!listEl) {
+            return;
+        }
+        listEl.empty();
+
+        const entries = this.history.getEntries().filter(entry => this.matches(entry));
+        if (entries.length === 0) {
+            listEl.createDiv({
+                cls: 'ghosty-posty-muted',
+                text: this.history.getEntries().length === 0 ? 'Nothing has been published yet' : 'No publishes match the filters'
+            });
+            return;
+        }
+
+        for (const entry of entries.slice(0, MAX_SHOWN)) {
+            this.renderEntry(listEl, entry);
+        }
+        if (entries.length > MAX_SHOWN) {
+            listEl.createDiv({
+                cls: 'ghosty-posty-muted',
+                text: `${entries.length - MAX_SHOWN} older entries not shown; narrow the search to find them`
+            });
+        }
+    }
+
+    private renderEntry(listEl: HTMLElement, entry: PublishHistoryEntry) {
+        const itemEl = listEl.createDiv({ cls: `ghosty-posty-history-item${entry.error ? ' is-failed' : ''}` });
+
+        const headerEl = itemEl.createDiv();
+        const noteName = entry.notePath.split('/').pop()?.replace(/\.md$/, '') || entry.notePath;
+        const noteLink = headerEl.createEl('a', { text: noteName, href: '#' });
+        noteLink.addEventListener('click', (event) => {
+            event.preventDefault();
+            this.openNote(entry);
+        });
+        if (entry.url && !entry.error) {
+            headerEl.appendText(' · ');
+            headerEl.createEl('a', { text: 'View in ghost', href: entry.url });
+        }
+
+        const verb = entry.action === 'create' ? 'Created' : 'Updated';
+        const summary = entry.error
+            ? `Failed to ${entry.action} ${entry.type}: ${entry.error}`
+            : `${verb} ${entry.type} (${entry.status ?? 'unknown status'}), ${entry.imageCount} image${entry.imageCount === 1 ? '' : 's'}`;
+        itemEl.createDiv({ cls: 'ghosty-posty-history-result', text: summary });
+
+        itemEl.createDiv({
+            cls: 'ghosty-posty-muted',
+            text: `${new Date(entry.timestamp).toLocaleString()} · ${entry.siteName} · ${entry.device}`
+        });
+    }
+
+    /**
+     * Open the note an entry was published from, following it if it was archived or renamed since
+     */
+    private openNote(entry: PublishHistoryEntry) {
+        const linked = entry.postId
+            ? this.app.vault.getMarkdownFiles().find(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.ghost_id === entry.postId)
+            : undefined;
+        const atPath = this.app.vault.getAbstractFileByPath(entry.notePath);
+        const file = linked ?? (atPath instanceof TFile ? atPath : null);
+
+        if (!file) {
+            new Notice(`${entry.notePath} is no longer in the vault`);
+            return;
+        }
+        void this.app.workspace.getLeaf(false).openFile(file);
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
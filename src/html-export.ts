@@ -0,0 +1,110 @@
+import { MetadataCache, TFile, Vault, normalizePath } from 'obsidian';
+import { ImageReference } from './types';
+import { ConversionResult, escapeHtml, removeImages, replaceImageUrls } from './markdown-converter';
+import { resolveVaultImage } from './image-uploader';
+import { ensureFolder, sanitizeFilename } from './vault-files';
+
+/**
+ * Write a file, replacing it if it was exported before
+ */
+async function writeFile(vault: Vault, path: string, data: string | ArrayBuffer): Promise<void> {
+    const existing = vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+        if (typeof data === 'string') {
+            await vault.modify(existing, data);
+        } else {
+            await vault.modifyBinary(existing, data);
+        }
+    } else if (typeof data === 'string') {
+        await vault.create(path, data);
+    } else {
+        await vault.createBinary(path, data);
+    }
+}
+
+/**
+ * Build a standalone HTML document around the converted post body
+ */
+function buildDocument(title: string, html: string, featureImageUrl: string | undefined): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        '</head>',
+        '<body>',
+        '<article>',
+        `<h1>${escapeHtml(title)}</h1>`,
+        ...(featureImageUrl ? [`<figure class="feature-image"><img src="${featureImageUrl}" alt=""></figure>`] : []),
+        html,
+        '</article>',
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Write a converted note into the export folder as an HTML file, with its images
+ * copied into an assets folder and linked by relative URL instead of being uploaded
+ * Used by the export command and by the publish modal's dry run; nothing is sent to ghost
+ */
+export async function exportNoteAsHtml(
+    vault: Vault,
+    metadataCache: MetadataCache,
+    sourceFile: TFile,
+    title: string,
+    conversionResult: ConversionResult,
+    exportFolder: string
+): Promise<{ success: true; path: string; imageCount: number; missingImages: string[] } | { success: false; error: string }> {
+    const folderName = sanitizeFilename(sourceFile.basename) || 'export';
+    const bundleFolder = normalizePath(`${exportFolder || 'Ghost exports'}/${folderName}`);
+    const assetsFolder = `${bundleFolder}/assets`;
+
+    try {
+        await ensureFolder(vault, bundleFolder);
+
+        // Collect all images to copy, once per path
+        const images: ImageReference[] = [
+            ...(conversionResult.featuredImage ? [conversionResult.featuredImage] : []),
+            ...conversionResult.images
+        ].filter((image, index, all) => all.findIndex(other => other.path === image.path) === index);
+
+        const urlMap = new Map<string, string>();
+        const usedNames = new Set<string>();
+        const missingImages: string[] = [];
+        for (const image of images) {
+            const file = resolveVaultImage(vault, metadataCache, sourceFile, image.path);
+            if (!file) {
+                missingImages.push(image.path);
+                continue;
+            }
+
+            // Images with the same name from different folders get a counter
+            let name = file.name;
+            for (let counter = 1; usedNames.has(name.toLowerCase()); counter++) {
+                name = `${file.basename}-${counter}.${file.extension}`;
+            }
+            usedNames.add(name.toLowerCase());
+
+            if (urlMap.size === 0) {
+                await ensureFolder(vault, assetsFolder);
+            }
+            await writeFile(vault, `${assetsFolder}/${name}`, await vault.readBinary(file));
+            urlMap.set(image.path, encodeURI(`assets/${name}`));
+        }
+
+        // Same replacement as publishing, with relative URLs instead of ghost URLs
+        let html = removeImages(conversionResult.html, missingImages);
+        html = replaceImageUrls(html, urlMap);
+        const featureImageUrl = conversionResult.featuredImage ? urlMap.get(conversionResult.featuredImage.path) : undefined;
+
+        const path = `${bundleFolder}/${folderName}.html`;
+        await writeFile(vault, path, buildDocument(title, html, featureImageUrl));
+
+        return { success: true, path, imageCount: urlMap.size, missingImages };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
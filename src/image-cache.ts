@@ -0,0 +1,105 @@
+import { requestUrl } from 'obsidian';
+import { ImageCacheEntry } from './types';
+
+// Responses that mean an image was deleted; anything else may be temporary
+const GONE_STATUSES = [404, 410];
+
+/**
+ * Compute the SHA-256 hash of image bytes as a hex string
+ */
+export async function hashImage(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Remembers which images have already been uploaded to each site, keyed by content hash,
+ * so unchanged images are not uploaded again when a note is republished
+ */
+export class ImageCache {
+    private entries: Record<string, Record<string, ImageCacheEntry>>;
+    private persist: () => Promise<void>;
+
+    constructor(entries: Record<string, Record<string, ImageCacheEntry>>, persist: () => Promise<void>) {
+        this.entries = entries;
+        this.persist = persist;
+    }
+
+    /**
+     * Get the ghost URL of a previously uploaded image
+     */
+    get(siteId: string, hash: string): string | null {
+        return this.entries[siteId]?.[hash]?.url ?? null;
+    }
+
+    /**
+     * Record an upload; call save() afterwards to persist it
+     */
+    set(siteId: string, hash: string, url: string): void {
+        if (!this.entries[siteId]) {
+            this.entries[siteId] = {};
+        }
+        this.entries[siteId][hash] = {
+            url,
+            uploadedAt: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Number of cached uploads across all sites
+     */
+    count(): number {
+        return Object.values(this.entries).reduce((total, site) => total + Object.keys(site).length, 0);
+    }
+
+    async save(): Promise<void> {
+        await this.persist();
+    }
+
+    /**
+     * Forget all cached uploads
+     */
+    async clear(): Promise<void> {
+        for (const siteId of Object.keys(this.entries)) {
+            delete this.entries[siteId];
+        }
+        await this.persist();
+    }
+
+    /**
+     * Check that every cached URL still resolves and drop the ones ghost reports as gone (404 or 410)
+     * URLs that can't be checked (e.g. while offline, rate limited or on a server error) are kept
+     */
+    async verify(onProgress?: (checked: number, total: number) => void): Promise<{ valid: number; removed: number; unchecked: number }> {
+        const total = this.count();
+        let checked = 0;
+        let valid = 0;
+        let removed = 0;
+        let unchecked = 0;
+
+        for (const siteEntries of Object.values(this.entries)) {
+            for (const [hash, entry] of Object.entries(siteEntries)) {
+                try {
+                    const response = await requestUrl({ url: entry.url, method: 'HEAD', throw: false });
+                    if (response.status >= 200 && response.status < 400) {
+                        valid++;
+                    } else if (GONE_STATUSES.includes(response.status)) {
+                        delete siteEntries[hash];
+                        removed++;
+                    } else {
+                        unchecked++;
+                    }
+                } catch {
+                    unchecked++;
+                }
+                checked++;
+                onProgress?.(checked, total);
+            }
+        }
+
+        await this.persist();
+        return { valid, removed, unchecked };
+    }
+}
@@ -0,0 +1,275 @@
+import { ImageProcessingSettings } from './types';
+
+const MIME_TYPES: Record<string, string> = {
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'png': 'image/png',
+    'webp': 'image/webp',
+    'bmp': 'image/bmp'
+};
+
+// JPEG segments that only carry metadata: APP1 (EXIF/XMP), APP13 (IPTC) and comments
+const JPEG_METADATA_MARKERS = [0xE1, 0xED, 0xFE];
+
+// EXIF tag recording how the camera was held; without it phone photos show up rotated
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// PNG chunks that only carry metadata
+const PNG_METADATA_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+
+export interface ProcessedImage {
+    data: ArrayBuffer;
+    filename: string;
+}
+
+/**
+ * Describe the processing settings so cached uploads are only reused for the same settings
+ */
+export function getProcessingFingerprint(settings: ImageProcessingSettings): string {
+    return [
+        `w${settings.maxWidth}`,
+        `h${settings.maxHeight}`,
+        settings.format,
+        `q${settings.quality}`,
+        // Uploads stripped before the orientation was kept may be rotated, so they aren't reused
+        settings.stripMetadata ? 'strip-orientation' : 'keep'
+    ].join('-');
+}
+
+/**
+ * Read the orientation (1-8) from the data of an EXIF APP1 segment, or null if it has none
+ */
+function readExifOrientation(data: Uint8Array): number | null {
+    // "Exif\0\0", then a TIFF header and the first IFD
+    if (data.length < 14 || String.fromCharCode(data[0], data[1], data[2], data[3]) !== 'Exif') {
+        return null;
+    }
+    const tiff = data.subarray(6);
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    // "II" is little-endian, "MM" big-endian
+    const littleEndian = tiff[0] === 0x49;
+    if (!littleEndian && tiff[0] !== 0x4D) {
+        return null;
+    }
+
+    const ifdOffset = view.getUint32(4, littleEndian);
+    if (ifdOffset + 2 > tiff.length) {
+        return null;
+    }
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (entry + 12 > tiff.length) {
+            return null;
+        }
+        if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Build an APP1 segment whose EXIF data holds nothing but the orientation
+ */
+function createOrientationSegment(orientation: number): Uint8Array {
+    // Marker, length, "Exif\0\0", TIFF header, entry count, one entry, next IFD offset
+    const segment = new Uint8Array(36);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xFFE1);
+    view.setUint16(2, segment.length - 2);
+    segment.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00], 4);
+    // Big-endian TIFF header with the first IFD straight after it
+    segment.set([0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08], 10);
+    view.setUint16(18, 1);
+    view.setUint16(20, EXIF_ORIENTATION_TAG);
+    // One SHORT value, stored in the entry itself
+    view.setUint16(22, 3);
+    view.setUint32(24, 1);
+    view.setUint16(28, orientation);
+    return segment;
+}
+
+/**
+ * Remove EXIF, XMP, IPTC and comment segments from a JPEG, keeping the ICC colour profile
+ * and the EXIF orientation, which viewers need to show the photo the right way up
+ */
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+    if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) {
+        return bytes;
+    }
+
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let orientationKept = false;
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+        const marker = bytes[offset + 1];
+
+        // Start of scan: the rest of the file is image data
+        if (marker === 0xDA) {
+            break;
+        }
+
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (!JPEG_METADATA_MARKERS.includes(marker)) {
+            parts.push(bytes.subarray(offset, offset + 2 + length));
+        } else if (marker === 0xE1 && !orientationKept) {
+            const orientation = readExifOrientation(bytes.subarray(offset + 4, offset + 2 + length));
+            // 1 is the default, so it needs no segment
+            if (orientation !== null && orientation !== 1) {
+                parts.push(createOrientationSegment(orientation));
+                orientationKept = true;
+            }
+        }
+        offset += 2 + length;
+    }
+    parts.push(bytes.subarray(offset));
+
+    return concatBytes(parts);
+}
+
+/**
+ * Remove text, EXIF and timestamp chunks from a PNG
+ */
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+    if (bytes[0] !== 0x89 || bytes[1] !== 0x50 || bytes[2] !== 0x4E || bytes[3] !== 0x47) {
+        return bytes;
+    }
+
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+        const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+        // Length, type, data and CRC
+        const chunkEnd = offset + 12 + length;
+        if (!PNG_METADATA_CHUNKS.includes(type)) {
+            parts.push(bytes.subarray(offset, chunkEnd));
+        }
+        offset = chunkEnd;
+    }
+
+    return concatBytes(parts);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * Strip metadata without re-encoding the image
+ */
+function stripMetadata(data: ArrayBuffer, extension: string): ArrayBuffer {
+    const bytes = new Uint8Array(data);
+    let stripped: Uint8Array;
+    if (extension === 'jpg' || extension === 'jpeg') {
+        stripped = stripJpegMetadata(bytes);
+    } else if (extension === 'png') {
+        stripped = stripPngMetadata(bytes);
+    } else {
+        return data;
+    }
+    return stripped.buffer.slice(stripped.byteOffset, stripped.byteOffset + stripped.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Encode a canvas, resolving to null if the browser can't produce the requested type
+ * (for example WebP on iOS, which silently falls back to PNG)
+ */
+function encodeCanvas(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+    return new Promise(resolve => {
+        canvas.toBlob(blob => {
+            resolve(blob && blob.type === type ? blob : null);
+        }, type, quality);
+    });
+}
+
+/**
+ * Replace the extension of a filename
+ */
+function withExtension(filename: string, extension: string): string {
+    const dotIndex = filename.lastIndexOf('.');
+    const baseName = dotIndex > 0 ? filename.substring(0, dotIndex) : filename;
+    return `${baseName}.${extension}`;
+}
+
+/**
+ * Resize, re-encode and strip metadata from an image before upload
+ * Uses the canvas API so it works on desktop and mobile; GIF and SVG files are left untouched
+ */
+export async function processImage(filename: string, data: ArrayBuffer, settings: ImageProcessingSettings): Promise<ProcessedImage> {
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    const mimeType = MIME_TYPES[extension];
+
+    // Animated GIFs and vector images would be damaged by re-encoding
+    if (!settings.enabled || !mimeType) {
+        return { data, filename };
+    }
+
+    const original: ProcessedImage = {
+        data: settings.stripMetadata ? stripMetadata(data, extension) : data,
+        filename
+    };
+
+    // Re-encoded images lose their EXIF data, so the orientation is applied to the pixels
+    const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }), { imageOrientation: 'from-image' });
+    const maxWidth = settings.maxWidth > 0 ? settings.maxWidth : Infinity;
+    const maxHeight = settings.maxHeight > 0 ? settings.maxHeight : Infinity;
+    const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height);
+
+    // Nothing to resize or convert
+    if (scale === 1 && settings.format === 'original' && extension !== 'bmp') {
+        bitmap.close();
+        return original;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        return original;
+    }
+
+    // JPEG has no transparency, so flatten onto white instead of black
+    const targetExtension = settings.format === 'original'
+        ? (extension === 'bmp' ? 'png' : extension)
+        : settings.format === 'jpeg' ? 'jpg' : 'webp';
+    if (targetExtension === 'jpg' || targetExtension === 'jpeg') {
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const quality = settings.quality / 100;
+    let encoded = await encodeCanvas(canvas, MIME_TYPES[targetExtension], quality);
+    let encodedExtension = targetExtension;
+    if (!encoded && targetExtension === 'webp') {
+        encoded = await encodeCanvas(canvas, 'image/jpeg', quality);
+        encodedExtension = 'jpg';
+    }
+    if (!encoded) {
+        return original;
+    }
+
+    // Re-encoding at full size can make an already optimized image bigger
+    const encodedData = await encoded.arrayBuffer();
+    if (scale === 1 && encodedData.byteLength >= original.data.byteLength) {
+        return original;
+    }
+
+    return {
+        data: encodedData,
+        filename: encodedExtension === extension ? filename : withExtension(filename, encodedExtension)
+    };
+}
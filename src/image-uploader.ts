@@ -0,0 +1,165 @@
+import { MetadataCache, TFile, Vault } from 'obsidian';
+import { GhostSite, ImageProcessingSettings, ImageReference } from './types';
+import { GhostAPI } from './ghost-api';
+import { ImageCache, hashImage } from './image-cache';
+import { processImage, getProcessingFingerprint } from './image-processor';
+import { DEFAULT_RETRY_OPTIONS } from './retry';
+
+/**
+ * Resolve an image path from a note to a file in the vault
+ */
+export function resolveVaultImage(vault: Vault, metadataCache: MetadataCache, sourceFile: TFile, imagePath: string): TFile | null {
+    // Try direct path first
+    const directFile = vault.getAbstractFileByPath(imagePath);
+    if (directFile instanceof TFile) {
+        return directFile;
+    }
+
+    // Try using metadata cache for link resolution (handles relative paths)
+    const resolved = metadataCache.getFirstLinkpathDest(imagePath, sourceFile.path);
+    if (resolved instanceof TFile) {
+        return resolved;
+    }
+
+    // Try relative to source file's folder
+    const sourceFolder = sourceFile.parent?.path || '';
+    const relativePath = sourceFolder ? `${sourceFolder}/${imagePath}` : imagePath;
+    const relativeFile = vault.getAbstractFileByPath(relativePath);
+    if (relativeFile instanceof TFile) {
+        return relativeFile;
+    }
+
+    return null;
+}
+
+export type ImageUploadState = 'pending' | 'optimizing' | 'uploading' | 'retrying' | 'done' | 'cached' | 'failed';
+
+/**
+ * Reads, optimizes and uploads the images of one note to one site, reusing cached uploads
+ * Shared by the publish modal and batch publishing
+ */
+export class ImageUploader {
+    private vault: Vault;
+    private metadataCache: MetadataCache;
+    private sourceFile: TFile;
+    private site: GhostSite;
+    private imageProcessing: ImageProcessingSettings;
+    private imageCache: ImageCache;
+    private processImages: boolean;
+
+    // Image optimization totals across all uploads
+    originalBytes: number = 0;
+    uploadedBytes: number = 0;
+
+    constructor(
+        vault: Vault,
+        metadataCache: MetadataCache,
+        sourceFile: TFile,
+        site: GhostSite,
+        imageProcessing: ImageProcessingSettings,
+        imageCache: ImageCache,
+        processImages: boolean
+    ) {
+        this.vault = vault;
+        this.metadataCache = metadataCache;
+        this.sourceFile = sourceFile;
+        this.site = site;
+        this.imageProcessing = imageProcessing;
+        this.imageCache = imageCache;
+        this.processImages = processImages;
+    }
+
+    /**
+     * Read, optimize and upload a single image; call saveCache() once all uploads are done
+     * Transient failures are retried by the API client
+     */
+    async upload(
+        api: GhostAPI,
+        image: ImageReference,
+        onProgress: (state: ImageUploadState, message: string) => void
+    ): Promise<{ success: true; url: string } | { success: false; error: string }> {
+        const filename = image.path.split('/').pop() || image.path;
+
+        // Resolve the image file
+        const imageFile = resolveVaultImage(this.vault, this.metadataCache, this.sourceFile, image.path);
+        if (!imageFile) {
+            return { success: false, error: 'Image not found' };
+        }
+
+        // Read the image data
+        let imageData: ArrayBuffer;
+        try {
+            imageData = await this.vault.readBinary(imageFile);
+        } catch {
+            return { success: false, error: 'Failed to read image' };
+        }
+
+        // Reuse the earlier upload if these exact bytes were uploaded to this site
+        // before, with the same optimization settings
+        const cacheKey = await this.getCacheKey(imageData);
+        const cachedUrl = this.imageCache.get(this.site.id, cacheKey);
+        if (cachedUrl) {
+            onProgress('cached', 'Already uploaded');
+            return { success: true, url: cachedUrl };
+        }
+
+        // Resize and re-encode before upload
+        let upload = { data: imageData, filename };
+        if (this.processImages) {
+            onProgress('optimizing', 'Optimizing...');
+            try {
+                upload = await processImage(filename, imageData, this.imageProcessing);
+            } catch {
+                // Upload the original if the image can't be decoded
+            }
+            this.originalBytes += imageData.byteLength;
+            this.uploadedBytes += upload.data.byteLength;
+        }
+
+        // Upload to Ghost
+        onProgress('uploading', 'Uploading...');
+        const result = await api.uploadImage(upload.filename, upload.data, (error, attempt, delayMs) => {
+            const reason = error.kind === 'rateLimit' ? 'Rate limited' : 'Upload failed';
+            onProgress('retrying', `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (${attempt}/${DEFAULT_RETRY_OPTIONS.retries})...`);
+        });
+        if (!result.success) {
+            return { success: false, error: result.error };
+        }
+
+        this.imageCache.set(this.site.id, cacheKey, result.url);
+        onProgress('done', 'Uploaded');
+        return { success: true, url: result.url };
+    }
+
+    /**
+     * Get the ghost URL an image was uploaded to earlier, without uploading it
+     * Returns null if it can't be read or wasn't uploaded with the current optimization settings
+     */
+    async findUploadedUrl(image: ImageReference): Promise<string | null> {
+        const imageFile = resolveVaultImage(this.vault, this.metadataCache, this.sourceFile, image.path);
+        if (!imageFile) {
+            return null;
+        }
+        try {
+            const cacheKey = await this.getCacheKey(await this.vault.readBinary(imageFile));
+            return this.imageCache.get(this.site.id, cacheKey);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Cache key for image bytes: the content hash, plus the optimization settings when images are optimized
+     */
+    private async getCacheKey(imageData: ArrayBuffer): Promise<string> {
+        const hash = await hashImage(imageData);
+        return this.processImages ? `${hash}:${getProcessingFingerprint(this.imageProcessing)}` : hash;
+    }
+
+    /**
+     * Persist the uploads recorded so far, so they are reused even if publishing stops
+     */
+    async saveCache(): Promise<void> {
+        await this.imageCache.save();
+    }
+}
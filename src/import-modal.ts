@@ -0,0 +1,334 @@
+import { App, Modal, Setting, Notice, TFile, normalizePath, requestUrl } from 'obsidian';
+import { GhostPostResponse, GhostSite, PostStatus } from './types';
+import { GhostAPI } from './ghost-api';
+import { FolderSuggest } from './folder-suggest';
+import { applyGhostPostFields } from './frontmatter';
+import { convertHtmlToMarkdown, extractImageUrls } from './markdown-converter';
+import { ensureFolder, sanitizeFilename } from './vault-files';
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+export class ImportModal extends Modal {
+    private sites: GhostSite[];
+
+    // Form values
+    private site: GhostSite;
+    private targetFolder: string = 'Ghost posts';
+    private downloadImages: boolean = true;
+
+    // Per-run state
+    private failedImages: number = 0;
+
+    // UI elements
+    private importButton: HTMLButtonElement | null = null;
+    private statusEl: HTMLElement | null = null;
+
+    constructor(app: App, sites: GhostSite[], site: GhostSite) {
+        super(app);
+        this.sites = sites;
+        this.site = site;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+
+        contentEl.createEl('h2', { text: 'Import posts from ghost' });
+
+        const formSection = contentEl.createDiv({ cls: 'ghosty-posty-form' });
+
+        // Site picker (only when there is more than one site)
+        if (this.sites.length > 1) {
+            new Setting(formSection)
+                .setName('Site')
+                .addDropdown(dropdown => {
+                    for (const site of this.sites) {
+                        dropdown.addOption(site.id, site.name);
+                    }
+                    dropdown
+                        .setValue(this.site.id)
+                        .onChange(value => {
+                            this.site = this.sites.find(s => s.id === value) || this.site;
+                        });
+                });
+        }
+
+        // Target folder input
+        new Setting(formSection)
+            .setName('Folder')
+            .setDesc('Imported notes are created in this folder')
+            .addText(text => {
+                text
+                    .setValue(this.targetFolder)
+                    .onChange(value => {
+                        this.targetFolder = value.trim();
+                    });
+                new FolderSuggest(this.app, text.inputEl);
+                return text;
+            });
+
+        // Image download toggle
+        new Setting(formSection)
+            .setName('Download images')
+            .setDesc('Save feature and inline images into an attachments folder instead of linking to ghost')
+            .addToggle(toggle => toggle
+                .setValue(this.downloadImages)
+                .onChange(value => {
+                    this.downloadImages = value;
+                }));
+
+        // Status/progress area
+        this.statusEl = contentEl.createDiv({ cls: 'ghosty-posty-status' });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'ghosty-posty-buttons' });
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.close());
+
+        this.importButton = buttonContainer.createEl('button', {
+            text: 'Import',
+            cls: 'mod-cta'
+        });
+        this.importButton.addEventListener('click', () => {
+            void this.runImport();
+        });
+    }
+
+    private setStatus(message: string) {
+        if (this.statusEl) {
+            this.statusEl.textContent = message;
+        }
+    }
+
+    private setButtonsEnabled(enabled: boolean) {
+        const buttons = this.contentEl.querySelectorAll('button');
+        buttons.forEach(btn => {
+            if (enabled) {
+                btn.removeAttribute('disabled');
+            } else {
+                btn.setAttribute('disabled', 'true');
+            }
+        });
+    }
+
+    /**
+     * Collect the ghost IDs of posts that are already linked to notes in the vault
+     */
+    private getLinkedPostIds(): Set<string> {
+        const ids = new Set<string>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const ghostId = this.app.metadataCache.getFileCache(file)?.frontmatter?.ghost_id;
+            if (ghostId) {
+                ids.add(String(ghostId));
+            }
+        }
+        return ids;
+    }
+
+    /**
+     * Find a path in the folder that doesn't exist yet, appending a counter if needed
+     */
+    private getAvailablePath(folder: string, baseName: string, extension: string): string {
+        let path = normalizePath(`${folder}/${baseName}.${extension}`);
+        let counter = 1;
+        while (this.app.vault.getAbstractFileByPath(path)) {
+            path = normalizePath(`${folder}/${baseName}-${counter}.${extension}`);
+            counter++;
+        }
+        return path;
+    }
+
+    /**
+     * Download a remote image into the attachments folder
+     * Returns the vault path, or null if the download failed
+     */
+    private async downloadImage(url: string, folder: string): Promise<string | null> {
+        try {
+            const response = await requestUrl({ url, throw: false });
+            if (response.status < 200 || response.status >= 300) {
+                this.failedImages++;
+                return null;
+            }
+
+            const attachmentsFolder = `${folder}/attachments`;
+            await ensureFolder(this.app.vault, attachmentsFolder);
+
+            // Use the last path segment of the URL as the file name
+            const urlPath = new URL(url).pathname;
+            let filename = urlPath.split('/').pop() || 'image';
+            try {
+                filename = decodeURIComponent(filename);
+            } catch {
+                // Keep the encoded name
+            }
+            const dotIndex = filename.lastIndexOf('.');
+            const extension = dotIndex > 0 ? filename.substring(dotIndex + 1).toLowerCase() : 'png';
+            const baseName = sanitizeFilename(dotIndex > 0 ? filename.substring(0, dotIndex) : filename) || 'image';
+
+            const path = this.getAvailablePath(attachmentsFolder, baseName, extension);
+            await this.app.vault.createBinary(path, response.arrayBuffer);
+            return path;
+        } catch {
+            this.failedImages++;
+            return null;
+        }
+    }
+
+    /**
+     * Map ghost's post status to the statuses the plugin publishes with
+     */
+    private toPostStatus(status: string): PostStatus {
+        if (status === 'draft' || status === 'scheduled') {
+            return status;
+        }
+        // Email-only posts ("sent") become drafts marked email_only, so republishing doesn't put them on the site
+        return status === 'sent' ? 'draft' : 'published';
+    }
+
+    /**
+     * Write a single post into the vault as a markdown note
+     */
+    private async importPost(post: GhostPostData, folder: string): Promise<TFile> {
+        const html = post.html || '';
+
+        // Download images first so the markdown can embed the vault copies
+        const imagePaths = new Map<string, string>();
+        if (this.downloadImages) {
+            const urls = [
+                ...(post.feature_image ? [post.feature_image] : []),
+                ...extractImageUrls(html)
+            ];
+            for (const url of urls) {
+                if (imagePaths.has(url)) {
+                    continue;
+                }
+                const path = await this.downloadImage(url, folder);
+                if (path) {
+                    imagePaths.set(url, path);
+                }
+            }
+        }
+
+        let body = convertHtmlToMarkdown(html, imagePaths);
+
+        // A first-line image is used as the featured image when the note is republished
+        const featureImagePath = post.feature_image ? imagePaths.get(post.feature_image) : undefined;
+        if (featureImagePath) {
+            body = `![[${featureImagePath}]]\n\n${body}`;
+        }
+
+        const baseName = sanitizeFilename(post.title) || post.slug;
+        const file = await this.app.vault.create(this.getAvailablePath(folder, baseName, 'md'), `${body}\n`);
+
+        // Frontmatter mirrors what the publish command reads back
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            frontmatter.title = post.title;
+            frontmatter.slug = post.slug;
+            if (post.tags && post.tags.length > 0) {
+                frontmatter.tags = post.tags.map(tag => tag.name);
+            }
+            frontmatter.status = this.toPostStatus(post.status);
+            if (post.status === 'sent') {
+                frontmatter.email_only = true;
+            }
+            if (post.published_at) {
+                frontmatter.publish_date = post.published_at;
+            }
+            applyGhostPostFields(frontmatter, post, this.site);
+        });
+
+        return file;
+    }
+
+    private async runImport() {
+        const folder = normalizePath(this.targetFolder);
+        if (!this.targetFolder || folder === '/') {
+            new Notice('Please choose a folder to import into');
+            return;
+        }
+
+        this.setButtonsEnabled(false);
+        if (this.importButton) {
+            this.importButton.textContent = 'Importing...';
+        }
+
+        const api = new GhostAPI(this.site.ghostUrl, this.site.apiKey);
+        const linkedIds = this.getLinkedPostIds();
+        const failures: string[] = [];
+        let imported = 0;
+        let skipped = 0;
+        let processed = 0;
+        this.failedImages = 0;
+
+        try {
+            await ensureFolder(this.app.vault, folder);
+
+            let page: number | null = 1;
+            while (page !== null) {
+                this.setStatus(`Fetching posts (page ${page})...`);
+                const result = await api.getPosts(page);
+                if (!result.success) {
+                    throw new Error(result.error);
+                }
+
+                const total = result.pagination?.total ?? result.posts.length;
+                for (const post of result.posts) {
+                    processed++;
+
+                    // Posts that already have a note in the vault are left alone
+                    if (linkedIds.has(post.id)) {
+                        skipped++;
+                        continue;
+                    }
+
+                    this.setStatus(`Importing post ${processed}/${total}: ${post.title}...`);
+                    try {
+                        await this.importPost(post, folder);
+                        imported++;
+                    } catch (error) {
+                        failures.push(`${post.title}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    }
+                }
+
+                page = result.pagination?.next ?? null;
+            }
+
+            let summary = `Imported ${imported} post${imported === 1 ? '' : 's'} into ${folder}`;
+            if (skipped > 0) {
+                summary += `, skipped ${skipped} already in the vault`;
+            }
+            if (failures.length > 0) {
+                summary += `, ${failures.length} failed`;
+            }
+            if (this.failedImages > 0) {
+                summary += ` (${this.failedImages} image${this.failedImages === 1 ? '' : 's'} could not be downloaded)`;
+            }
+            new Notice(summary);
+
+            if (failures.length > 0) {
+                this.setStatus(`${summary}\n${failures.join('\n')}`);
+                this.setButtonsEnabled(true);
+                if (this.importButton) {
+                    this.importButton.textContent = 'Import';
+                }
+            } else {
+                this.close();
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            new Notice(`Import failed: ${errorMessage}`);
+            this.setStatus(`Error: ${errorMessage}`);
+            this.setButtonsEnabled(true);
+            if (this.importButton) {
+                this.importButton.textContent = 'Import';
+            }
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
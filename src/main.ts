@@ -1,14 +1,63 @@
-import { Plugin, Notice, TFile } from 'obsidian';
-import { GhostyPostySettings, DEFAULT_SETTINGS, PostMetadata, PostStatus } from './types';
+import { Plugin, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import { GhostyPostySettings, DEFAULT_SETTINGS, PostMetadata, PostStatus, PostType, PostVisibility, EmailSegment, SeoFields, SEO_FIELDS, GhostPostResponse, GhostSite, LegacySiteSettings, ImageReference } from './types';
 import { GhostyPostySettingTab } from './settings';
 import { PublishModal } from './publish-modal';
-import { convertMarkdownToHtml } from './markdown-converter';
+import { ConversionResult, convertHtmlToMarkdown, convertMarkdownToHtml, replaceImageUrls, stripFrontmatter } from './markdown-converter';
+import { GhostAPI } from './ghost-api';
+import { applyGhostPostFields, clearGhostPostFields } from './frontmatter';
+import { ImportModal } from './import-modal';
+import { ConfirmModal } from './confirm-modal';
+import { BatchPublishModal } from './batch-publish-modal';
+import { createSite, findSite, isSiteConfigured } from './sites';
+import { ImageCache } from './image-cache';
+import { applyTagMappings } from './tags';
+import { exportNoteAsHtml } from './html-export';
+import { PublishHistory } from './publish-history';
+import { HistoryModal } from './history-modal';
+import { POSTS_VIEW_TYPE, PostsView } from './posts-view';
+import { SnapshotStore } from './snapshots';
+import { CompareModal, Comparison, matchesTag } from './compare-modal';
+import { ImageUploader } from './image-uploader';
+
+/**
+ * A note read and converted for publishing, with the post it is linked to
+ */
+export interface PreparedNote {
+    metadata: PostMetadata;
+    conversionResult: ConversionResult;
+    // The same conversion with changed and removed content highlighted
+    previewHtml: string;
+    existingPost: GhostPostResponse['posts'][0] | null;
+}
+
+/**
+ * The most recent publish that created a post, so it can be undone
+ */
+interface LastPublish {
+    file: TFile;
+    // Where the note was before it was archived
+    originalPath: string;
+    postId: string;
+    title: string;
+    siteId: string;
+    type: PostType;
+}
 
 export default class GhostyPostyPlugin extends Plugin {
     settings: GhostyPostySettings;
+    imageCache: ImageCache;
+    history: PublishHistory;
+    snapshots: SnapshotStore;
+    private lastPublish: LastPublish | null = null;
 
     async onload() {
         await this.loadSettings();
+        this.imageCache = new ImageCache(this.settings.imageCache, () => this.saveSettings());
+        this.history = new PublishHistory(this.app, this.settings.publishHistory, () => this.saveSettings(), () => ({
+            format: this.settings.historyLog,
+            path: this.settings.historyLogPath
+        }));
+        this.snapshots = new SnapshotStore(this.app.vault.adapter, this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`);
 
         // Register the publish command
         this.addCommand({
@@ -17,6 +66,113 @@ export default class GhostyPostyPlugin extends Plugin {
             callback: () => this.publishCurrentNote()
         });
 
+        // Register the HTML export command
+        this.addCommand({
+            id: 'export-as-ghost-html',
+            name: 'Export as ghost HTML',
+            callback: () => this.exportCurrentNote()
+        });
+
+        // Register the batch publish command and file explorer actions
+        this.addCommand({
+            id: 'publish-folder-to-ghost',
+            name: 'Publish folder to ghost',
+            callback: () => this.publishFolder(null)
+        });
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (file instanceof TFolder) {
+                menu.addItem(item => item
+                    .setTitle('Publish folder to ghost')
+                    .setIcon('upload')
+                    .onClick(() => this.publishFolder(file)));
+            }
+        }));
+
+        this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+            const notes = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+            if (notes.length > 0) {
+                menu.addItem(item => item
+                    .setTitle(`Publish ${notes.length} note${notes.length === 1 ? '' : 's'} to ghost`)
+                    .setIcon('upload')
+                    .onClick(() => this.publishFiles(notes)));
+            }
+        }));
+
+        // Register the commands that act on the linked post
+        this.addCommand({
+            id: 'compare-with-ghost',
+            name: 'Compare with ghost',
+            checkCallback: (checking) => this.runLinkedPostCommand(checking, file => this.compareWithGhost(file))
+        });
+
+        this.addCommand({
+            id: 'revert-to-draft',
+            name: 'Revert to draft',
+            checkCallback: (checking) => this.runLinkedPostCommand(checking, file => this.changePostStatus(file, 'published'))
+        });
+
+        this.addCommand({
+            id: 'unschedule-post',
+            name: 'Unschedule',
+            checkCallback: (checking) => this.runLinkedPostCommand(checking, file => this.changePostStatus(file, 'scheduled'))
+        });
+
+        this.addCommand({
+            id: 'delete-post',
+            name: 'Delete post',
+            checkCallback: (checking) => this.runLinkedPostCommand(checking, file => this.deleteLinkedPost(file))
+        });
+
+        this.addCommand({
+            id: 'undo-last-publish',
+            name: 'Undo last publish',
+            checkCallback: (checking) => {
+                if (!this.lastPublish) {
+                    return false;
+                }
+                if (!checking) {
+                    this.undoLastPublish();
+                }
+                return true;
+            }
+        });
+
+        // Register the publish history command
+        this.addCommand({
+            id: 'show-publish-history',
+            name: 'Show publish history',
+            callback: () => new HistoryModal(this.app, this.history).open()
+        });
+
+        // Register the posts side panel
+        this.registerView(POSTS_VIEW_TYPE, (leaf) => new PostsView(leaf, this));
+        this.addCommand({
+            id: 'open-posts-view',
+            name: 'Open ghost posts',
+            callback: () => this.openPostsView()
+        });
+
+        // Register the import command
+        this.addCommand({
+            id: 'import-from-ghost',
+            name: 'Import posts from ghost',
+            callback: () => this.importPosts()
+        });
+
+        // Register the image cache commands
+        this.addCommand({
+            id: 'clear-image-cache',
+            name: 'Clear uploaded image cache',
+            callback: () => this.clearImageCache()
+        });
+
+        this.addCommand({
+            id: 'verify-image-cache',
+            name: 'Verify uploaded image cache',
+            callback: () => this.verifyImageCache()
+        });
+
         // Add settings tab
         this.addSettingTab(new GhostyPostySettingTab(this.app, this));
     }
@@ -26,7 +182,31 @@ export default class GhostyPostyPlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData() as (Partial<GhostyPostySettings> & LegacySiteSettings) | null;
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+        // Migrate single-site settings (or a fresh install) into the first site profile
+        const migrate = !data?.sites;
+        if (migrate) {
+            const site = createSite('Default', {
+                ghostUrl: data?.ghostUrl ?? '',
+                apiKey: data?.apiKey ?? '',
+                defaultStatus: data?.defaultStatus ?? 'draft',
+                archiveFolder: data?.archiveFolder ?? ''
+            });
+            this.settings = { ...DEFAULT_SETTINGS, sites: [site], defaultSiteId: site.id };
+        }
+
+        // Copy so edits never touch the defaults
+        this.settings.calloutStyles = { ...this.settings.calloutStyles };
+        this.settings.imageCache = { ...this.settings.imageCache };
+        this.settings.imageProcessing = { ...DEFAULT_SETTINGS.imageProcessing, ...this.settings.imageProcessing };
+        this.settings.tagMappings = { ...this.settings.tagMappings };
+        this.settings.publishHistory = [...this.settings.publishHistory];
+
+        if (migrate) {
+            await this.saveSettings();
+        }
     }
 
     async saveSettings() {
@@ -49,13 +229,59 @@ export default class GhostyPostyPlugin extends Plugin {
         return activeFile;
     }
 
+    /**
+     * Get the site marked as default, falling back to the first site
+     */
+    getDefaultSite(): GhostSite | null {
+        return this.settings.sites.find(site => site.id === this.settings.defaultSiteId)
+            || this.settings.sites[0]
+            || null;
+    }
+
+    /**
+     * Find the site a note publishes to: the ghost_site frontmatter key, or the default site
+     */
+    resolveSiteForFile(file: TFile): { success: true; site: GhostSite } | { success: false; error: string } {
+        const siteKey = this.app.metadataCache.getFileCache(file)?.frontmatter?.ghost_site;
+
+        let site: GhostSite | null;
+        if (siteKey) {
+            site = findSite(this.settings.sites, String(siteKey));
+            if (!site) {
+                return { success: false, error: `Unknown ghost site "${siteKey}" in frontmatter` };
+            }
+        } else {
+            site = this.getDefaultSite();
+        }
+
+        if (!site || !isSiteConfigured(site)) {
+            return { success: false, error: 'Please configure your ghost credentials in settings first' };
+        }
+        return { success: true, site };
+    }
+
+    /**
+     * Get the site a note publishes to, showing a notice if there isn't one
+     */
+    private getSiteForFile(file: TFile): GhostSite | null {
+        const result = this.resolveSiteForFile(file);
+        if (!result.success) {
+            new Notice(result.error);
+            return null;
+        }
+        return result.site;
+    }
+
     /**
      * Extract post metadata from frontmatter
      */
-    private getPostMetadata(file: TFile): PostMetadata {
+    private getPostMetadata(file: TFile, site: GhostSite): PostMetadata {
         const cache = this.app.metadataCache.getFileCache(file);
         const frontmatter = cache?.frontmatter;
 
+        // Notes can be published as pages instead of posts
+        const type: PostType = frontmatter?.type === 'page' ? 'page' : 'post';
+
         // Get title from frontmatter or filename
         const title = frontmatter?.title || file.basename;
 
@@ -72,9 +298,10 @@ export default class GhostyPostyPlugin extends Plugin {
                 tags = frontmatter.tags.split(',').map((t: string) => t.trim());
             }
         }
+        tags = applyTagMappings(tags, this.settings.tagMappings);
 
         // Determine status and scheduled date
-        let status: PostStatus = frontmatter?.status || this.settings.defaultStatus;
+        let status: PostStatus = frontmatter?.status || site.defaultStatus;
         let publishedAt: string | undefined;
 
         // Check for scheduled publishing
@@ -93,40 +320,223 @@ export default class GhostyPostyPlugin extends Plugin {
             }
         }
 
+        // Get the linked ghost post from a previous publish
+        const ghostId = frontmatter?.ghost_id ? String(frontmatter.ghost_id) : undefined;
+        const ghostUpdatedAt = this.normalizeTimestamp(frontmatter?.ghost_updated_at);
+
+        // Notes can opt out of image optimization
+        const optimizeImages = frontmatter?.optimize_images !== false;
+
+        // Newsletter presets; any email_segment other than all/free/paid is a member filter
+        const newsletter = frontmatter?.newsletter ? String(frontmatter.newsletter) : undefined;
+        const segmentValue = frontmatter?.email_segment ? String(frontmatter.email_segment).trim() : 'all';
+        const emailSegment: EmailSegment = ['all', 'free', 'paid'].includes(segmentValue) ? segmentValue as EmailSegment : 'custom';
+        const emailFilter = emailSegment === 'custom' ? segmentValue : undefined;
+        const emailOnly = frontmatter?.email_only === true;
+
+        // Authors are staff emails or slugs, primary author first
+        let authors: string[] = [];
+        if (Array.isArray(frontmatter?.authors)) {
+            authors = frontmatter.authors.map((a: unknown) => String(a).trim()).filter((a: string) => a);
+        } else if (typeof frontmatter?.authors === 'string') {
+            authors = frontmatter.authors.split(',').map((a: string) => a.trim()).filter((a: string) => a);
+        }
+
+        // Excerpt, search and social card fields; "excerpt" is accepted for custom_excerpt
+        const seo: SeoFields = {};
+        for (const field of SEO_FIELDS) {
+            const value = this.readFrontmatterString(frontmatter?.[field] ?? (field === 'custom_excerpt' ? frontmatter?.excerpt : undefined));
+            if (value) {
+                seo[field] = value;
+            }
+        }
+
+        // Listing tiers implies tier-only visibility
+        let tiers: string[] = [];
+        if (Array.isArray(frontmatter?.tiers)) {
+            tiers = frontmatter.tiers.map(String);
+        } else if (typeof frontmatter?.tiers === 'string') {
+            tiers = frontmatter.tiers.split(',').map((t: string) => t.trim()).filter((t: string) => t);
+        }
+        const visibilityValue = String(frontmatter?.visibility ?? '').trim();
+        const visibility: PostVisibility = ['public', 'members', 'paid', 'tiers'].includes(visibilityValue)
+            ? visibilityValue as PostVisibility
+            : tiers.length > 0 ? 'tiers' : 'public';
+
         return {
+            type,
             title,
             slug,
             tags,
             status,
-            publishedAt
+            publishedAt,
+            ghostId,
+            ghostUpdatedAt,
+            optimizeImages,
+            newsletter,
+            emailSegment,
+            emailFilter,
+            emailOnly,
+            visibility,
+            tiers,
+            authors,
+            seo
         };
     }
 
     /**
-     * Main publish workflow
+     * Read a frontmatter value as text
+     * An unquoted [[link]] is parsed by YAML as a nested list, so it is unwrapped
      */
-    private async publishCurrentNote() {
-        // Check if settings are configured
-        if (!this.settings.ghostUrl || !this.settings.apiKey) {
-            new Notice('Please configure your ghost credentials in settings first');
-            return;
+    private readFrontmatterString(value: unknown): string | undefined {
+        if (Array.isArray(value)) {
+            const first = value.flat(Infinity)[0];
+            return first === undefined ? undefined : `[[${String(first)}]]`;
+        }
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        const text = String(value).trim();
+        return text || undefined;
+    }
+
+    /**
+     * Normalize a frontmatter timestamp to an ISO string
+     */
+    private normalizeTimestamp(value: unknown): string | undefined {
+        if (!value) {
+            return undefined;
+        }
+        const date = new Date(String(value));
+        return isNaN(date.getTime()) ? String(value) : date.toISOString();
+    }
+
+    /**
+     * Get the ghost URL of a linked note from its recorded ghost_url or ghost_slug
+     * Returns null when the note doesn't exist or hasn't been published
+     */
+    private getPublishedUrl(linkpath: string, sourceFile: TFile, site: GhostSite | null): string | null {
+        const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourceFile.path);
+        if (!target) {
+            return null;
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(target)?.frontmatter;
+        if (frontmatter?.ghost_url) {
+            return String(frontmatter.ghost_url);
+        }
+        if (frontmatter?.ghost_slug && site) {
+            return `${site.ghostUrl.replace(/\/+$/, '')}/${frontmatter.ghost_slug}/`;
+        }
+        return null;
+    }
+
+    /**
+     * Look up the ghost post linked to the note, if any
+     * Returns null when the note should be published as a new post
+     */
+    private async findLinkedPost(api: GhostAPI, metadata: PostMetadata): Promise<{ success: true; post: GhostPostResponse['posts'][0] | null } | { success: false; error: string }> {
+        if (!metadata.ghostId) {
+            return { success: true, post: null };
+        }
+
+        const result = await api.getPost(metadata.ghostId, metadata.type);
+        if (result.success) {
+            return { success: true, post: result.post };
+        }
+
+        // The linked post was deleted in ghost, so fall back to creating a new one
+        if (result.details.kind === 'notFound') {
+            new Notice('The linked ghost post no longer exists, a new post will be created');
+            return { success: true, post: null };
+        }
+
+        return { success: false, error: result.error };
+    }
+
+    /**
+     * Convert a note's markdown, linking to other notes published to the site
+     */
+    private convertNote(content: string, file: TFile, site: GhostSite | null, markChanges = false): ConversionResult {
+        return convertMarkdownToHtml(content, {
+            calloutStyles: this.settings.calloutStyles,
+            resolveNoteUrl: (linkpath) => this.getPublishedUrl(linkpath, file, site),
+            markChanges
+        });
+    }
+
+    /**
+     * Read and convert a note, and find the post it was previously published as
+     */
+    async prepareNote(file: TFile, site: GhostSite): Promise<{ success: true; note: PreparedNote } | { success: false; error: string }> {
+        // Read file content
+        const content = await this.app.vault.read(file);
+
+        // Convert markdown to HTML
+        const conversionResult = this.convertNote(content, file, site);
+        const previewHtml = this.convertNote(content, file, site, true).html;
+
+        // Get metadata from frontmatter
+        const metadata = this.getPostMetadata(file, site);
+
+        // Find the post this note was previously published as
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const linkedPost = await this.findLinkedPost(api, metadata);
+        if (!linkedPost.success) {
+            return { success: false, error: `Failed to load the linked ghost post: ${linkedPost.error}` };
+        }
+        const existingPost = linkedPost.post;
+
+        // Keep the live post's status, visibility and authors unless the frontmatter overrides them
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (existingPost && !frontmatter?.status) {
+            // Email-only posts stay off the site, as when they are imported
+            metadata.status = existingPost.status === 'sent' ? 'draft' : existingPost.status;
+        }
+        if (existingPost?.visibility && !frontmatter?.visibility && !frontmatter?.tiers) {
+            metadata.visibility = existingPost.visibility;
+            metadata.tiers = (existingPost.tiers ?? []).map(tier => tier.slug);
+        }
+        if (existingPost?.authors && !frontmatter?.authors) {
+            metadata.authors = existingPost.authors.map(author => author.slug);
         }
 
+        return { success: true, note: { metadata, conversionResult, previewHtml, existingPost } };
+    }
+
+    /**
+     * Main publish workflow
+     */
+    private async publishCurrentNote() {
         // Get the active file
         const file = this.getActiveFile();
         if (!file) {
             return;
         }
+        await this.publishNote(file);
+    }
 
-        try {
-            // Read file content
-            const content = await this.app.vault.read(file);
-
-            // Convert markdown to HTML
-            const conversionResult = convertMarkdownToHtml(content);
+    /**
+     * Open the publish modal for a note
+     * remoteUpdatedAt accepts the post's current state in ghost, so the publish overwrites edits made there
+     */
+    private async publishNote(file: TFile, remoteUpdatedAt?: string) {
+        // Get the target site and check it is configured
+        const site = this.getSiteForFile(file);
+        if (!site) {
+            return;
+        }
 
-            // Get metadata from frontmatter
-            const metadata = this.getPostMetadata(file);
+        try {
+            const prepared = await this.prepareNote(file, site);
+            if (!prepared.success) {
+                new Notice(prepared.error);
+                return;
+            }
+            const { metadata, conversionResult, previewHtml, existingPost } = prepared.note;
+            if (remoteUpdatedAt) {
+                metadata.ghostUpdatedAt = remoteUpdatedAt;
+            }
 
             // Show the confirmation modal
             new PublishModal(
@@ -136,11 +546,18 @@ export default class GhostyPostyPlugin extends Plugin {
                 file,
                 metadata,
                 conversionResult,
-                this.settings.ghostUrl,
-                this.settings.apiKey,
-                () => {
-                    // Success callback - archive the note if configured
-                    void this.archiveNote(file);
+                previewHtml,
+                this.settings.sites.filter(isSiteConfigured),
+                site,
+                this.settings.postFormat,
+                this.settings.imageProcessing,
+                this.imageCache,
+                this.history,
+                this.settings.exportFolder,
+                existingPost,
+                (post, publishedSite, type) => {
+                    // Success callback - link the note to the post, then archive it if configured
+                    void this.handlePublished(file, post, publishedSite, type, post.id !== existingPost?.id);
                 }
             ).open();
         } catch (error) {
@@ -149,13 +566,499 @@ export default class GhostyPostyPlugin extends Plugin {
     }
 
     /**
-     * Archive the note by moving it to the configured archive folder
+     * Export the current note as an HTML file with copied images, without contacting ghost
+     */
+    private async exportCurrentNote() {
+        const file = this.getActiveFile();
+        if (!file) {
+            return;
+        }
+
+        // Links to published notes still resolve when the note has a site, but no site is required
+        const siteResult = this.resolveSiteForFile(file);
+        const site = siteResult.success ? siteResult.site : null;
+
+        try {
+            const content = await this.app.vault.read(file);
+            const conversionResult = this.convertNote(content, file, site);
+            const title = String(this.app.metadataCache.getFileCache(file)?.frontmatter?.title || file.basename);
+
+            const result = await exportNoteAsHtml(this.app.vault, this.app.metadataCache, file, title, conversionResult, this.settings.exportFolder);
+            if (!result.success) {
+                new Notice(`Export failed: ${result.error}`);
+                return;
+            }
+
+            let message = `Exported to ${result.path} with ${result.imageCount} image${result.imageCount === 1 ? '' : 's'}`;
+            if (result.missingImages.length > 0) {
+                message += `\n${result.missingImages.length} image${result.missingImages.length === 1 ? ' was' : 's were'} not found: ${result.missingImages.join(', ')}`;
+            }
+            if (conversionResult.warnings.length > 0) {
+                message += `\n${conversionResult.warnings.join('\n')}`;
+            }
+            new Notice(message, 10000);
+        } catch (error) {
+            new Notice(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Link a published note to its post, then archive it if the site has an archive folder
+     * Only a newly created post archives the note; it can be undone until the next publish
+     */
+    async handlePublished(file: TFile, post: GhostPostResponse['posts'][0], site: GhostSite, type: PostType, created: boolean): Promise<void> {
+        const originalPath = file.path;
+        const content = await this.app.vault.read(file);
+        await this.linkNoteToPost(file, post, site, type);
+        await this.saveSnapshot(site, post, stripFrontmatter(content).content);
+        if (created) {
+            await this.archiveNote(file, site);
+        }
+
+        this.lastPublish = created
+            ? { file, originalPath, postId: post.id, title: post.title, siteId: site.id, type }
+            : null;
+        this.refreshPostsViews();
+    }
+
+    /**
+     * Show the posts side panel, reusing it if it is already open
+     */
+    private async openPostsView() {
+        let leaf = this.app.workspace.getLeavesOfType(POSTS_VIEW_TYPE)[0];
+        if (!leaf) {
+            const rightLeaf = this.app.workspace.getRightLeaf(false);
+            if (!rightLeaf) {
+                return;
+            }
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: POSTS_VIEW_TYPE, active: true });
+        }
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Reload open posts panels after a post was changed from the plugin
+     */
+    private refreshPostsViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(POSTS_VIEW_TYPE)) {
+            if (leaf.view instanceof PostsView) {
+                void leaf.view.refresh();
+            }
+        }
+    }
+
+    /**
+     * Run a command for the active note when it is linked to a ghost post
+     */
+    private runLinkedPostCommand(checking: boolean, action: (file: TFile) => Promise<void>): boolean {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.app.metadataCache.getFileCache(file)?.frontmatter?.ghost_id) {
+            return false;
+        }
+        if (!checking) {
+            void action(file);
+        }
+        return true;
+    }
+
+    /**
+     * Fetch the current state of the post linked to a note
+     * Shows a notice and returns null if the post can't be loaded
+     */
+    private async loadLinkedPost(file: TFile): Promise<{ site: GhostSite; api: GhostAPI; post: GhostPostResponse['posts'][0]; type: PostType } | null> {
+        const site = this.getSiteForFile(file);
+        if (!site) {
+            return null;
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const type: PostType = frontmatter?.type === 'page' ? 'page' : 'post';
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const result = await api.getPost(String(frontmatter?.ghost_id), type);
+        if (!result.success) {
+            new Notice(result.details.kind === 'notFound'
+                ? `The linked ${type} no longer exists in ghost`
+                : `Failed to load the linked ${type}: ${result.error}`);
+            return null;
+        }
+
+        return { site, api, post: result.post, type };
+    }
+
+    /**
+     * Move a published or scheduled post back to drafts, after confirmation
+     */
+    private async changePostStatus(file: TFile, from: 'published' | 'scheduled') {
+        const linked = await this.loadLinkedPost(file);
+        if (!linked) {
+            return;
+        }
+        const { site, api, post, type } = linked;
+
+        if (post.status !== from) {
+            new Notice(`This ${type} is ${post.status}, not ${from}`);
+            return;
+        }
+
+        const title = from === 'published' ? 'Revert to draft' : 'Unschedule';
+        const message = from === 'published'
+            ? `"${post.title}" will be unpublished from ${site.name} and moved back to drafts. Readers will no longer be able to see it.`
+            : `"${post.title}" is scheduled for ${new Date(post.published_at ?? '').toLocaleString()}. It will be moved back to drafts and won't be published or emailed.`;
+
+        new ConfirmModal(this.app, title, message, title, () => {
+            void (async () => {
+                const result = await api.updatePostStatus(post.id, 'draft', post.updated_at, type);
+                if (!result.success) {
+                    new Notice(`Failed to update the ${type}: ${result.error}`, 10000);
+                    return;
+                }
+                await this.linkNoteToPost(file, result.post, site, type);
+                this.refreshPostsViews();
+                new Notice(from === 'published' ? `"${post.title}" is now a draft` : `"${post.title}" was unscheduled`);
+            })();
+        }).open();
+    }
+
+    /**
+     * Delete the post linked to a note, after confirmation, and unlink the note
+     */
+    private async deleteLinkedPost(file: TFile) {
+        const linked = await this.loadLinkedPost(file);
+        if (!linked) {
+            return;
+        }
+        const { site, api, post, type } = linked;
+
+        const message = `"${post.title}" will be permanently deleted from ${site.name}. This can't be undone. The note is kept and can be published again as a new ${type}.`;
+        new ConfirmModal(this.app, `Delete ${type}`, message, 'Delete', () => {
+            void (async () => {
+                const result = await api.deletePost(post.id, type);
+                if (!result.success) {
+                    new Notice(`Failed to delete the ${type}: ${result.error}`, 10000);
+                    return;
+                }
+                await this.unlinkNote(file);
+                await this.snapshots.delete(site.id, post.id);
+                if (this.lastPublish?.postId === post.id) {
+                    this.lastPublish = null;
+                }
+                this.refreshPostsViews();
+                new Notice(`Deleted "${post.title}"`);
+            })();
+        }).open();
+    }
+
+    /**
+     * Delete the post created by the last publish and move its note back out of the archive, after confirmation
+     */
+    private undoLastPublish() {
+        const last = this.lastPublish;
+        if (!last) {
+            return;
+        }
+
+        const site = this.settings.sites.find(s => s.id === last.siteId);
+        if (!site || !isSiteConfigured(site)) {
+            new Notice('The site this note was published to is no longer configured');
+            return;
+        }
+
+        const moveBack = last.file.path !== last.originalPath;
+        const message = `"${last.title}" will be deleted from ${site.name}${moveBack ? ` and the note moved back to ${last.originalPath}` : ''}.`;
+        new ConfirmModal(this.app, 'Undo last publish', message, 'Undo publish', () => {
+            void (async () => {
+                const api = new GhostAPI(site.ghostUrl, site.apiKey);
+                const result = await api.deletePost(last.postId, last.type);
+                // A post that was already deleted in ghost doesn't stop the note from being restored
+                if (!result.success && result.details.kind !== 'notFound') {
+                    new Notice(`Failed to delete the ${last.type}: ${result.error}`, 10000);
+                    return;
+                }
+                this.lastPublish = null;
+                await this.snapshots.delete(site.id, last.postId);
+                this.refreshPostsViews();
+
+                // The note may have been deleted since
+                if (this.app.vault.getAbstractFileByPath(last.file.path) !== last.file) {
+                    new Notice(`Deleted "${last.title}"`);
+                    return;
+                }
+                await this.unlinkNote(last.file);
+                if (moveBack) {
+                    await this.restoreNote(last.file, last.originalPath);
+                }
+                new Notice(`Deleted "${last.title}"${moveBack ? ` and moved the note back to ${last.file.path}` : ''}`);
+            })();
+        }).open();
+    }
+
+    /**
+     * Show how the linked post and the note changed since the last publish, then overwrite ghost or pull its changes
+     */
+    private async compareWithGhost(file: TFile) {
+        const linked = await this.loadLinkedPost(file);
+        if (!linked) {
+            return;
+        }
+        const { site, post, type } = linked;
+
+        try {
+            const content = await this.app.vault.read(file);
+            const metadata = this.getPostMetadata(file, site);
+            const conversionResult = this.convertNote(content, file, site);
+            const snapshot = await this.snapshots.get(site.id, post.id);
+
+            // Uploaded images are matched to their vault files, so they compare equal and are pulled back as embeds
+            const imagePaths = await this.findUploadedImages(file, site, metadata, conversionResult);
+            const imageUrls = new Map(Array.from(imagePaths, ([url, path]) => [path, url]));
+
+            const comparison: Comparison = {
+                site,
+                type,
+                post,
+                remoteContent: convertHtmlToMarkdown(post.html ?? ''),
+                snapshot,
+                lastUpdatedAt: metadata.ghostUpdatedAt,
+                noteTitle: metadata.title,
+                noteTags: metadata.tags,
+                noteContent: stripFrontmatter(content).content,
+                normalizedNote: convertHtmlToMarkdown(replaceImageUrls(conversionResult.html, imageUrls))
+            };
+
+            new CompareModal(this.app, comparison, () => {
+                void this.publishNote(file, post.updated_at);
+            }, () => {
+                const pull = () => void this.pullFromGhost(file, comparison, imagePaths, conversionResult.featuredImage);
+                if (snapshot && snapshot.note === comparison.noteContent) {
+                    pull();
+                    return;
+                }
+                new ConfirmModal(
+                    this.app,
+                    'Pull into note',
+                    `The note's content will be replaced with the ${type} from ${site.name}. Edits made in the note since it was last published will be lost.`,
+                    'Pull',
+                    pull
+                ).open();
+            }).open();
+        } catch (error) {
+            new Notice(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Find the ghost URLs of a note's images that were uploaded before
+     * Returns ghost URL -> image path as written in the note
+     */
+    private async findUploadedImages(file: TFile, site: GhostSite, metadata: PostMetadata, conversionResult: ConversionResult): Promise<Map<string, string>> {
+        const uploader = new ImageUploader(
+            this.app.vault,
+            this.app.metadataCache,
+            file,
+            site,
+            this.settings.imageProcessing,
+            this.imageCache,
+            this.settings.imageProcessing.enabled && metadata.optimizeImages
+        );
+
+        const imagePaths = new Map<string, string>();
+        for (const image of conversionResult.images) {
+            const url = await uploader.findUploadedUrl(image);
+            if (url) {
+                imagePaths.set(url, image.path);
+            }
+        }
+        return imagePaths;
+    }
+
+    /**
+     * Replace the note's content, title and tags with the linked post's, keeping its other frontmatter
+     */
+    private async pullFromGhost(file: TFile, comparison: Comparison, imagePaths: Map<string, string>, featuredImage: ImageReference | null) {
+        const { site, type, post, noteTags } = comparison;
+
+        try {
+            const body = convertHtmlToMarkdown(post.html ?? '', imagePaths);
+            // The featured image isn't part of the post's HTML, so a first-line image is kept
+            const note = featuredImage?.isFirstLine ? `${featuredImage.originalSyntax}\n\n${body}\n` : `${body}\n`;
+            await this.app.vault.process(file, (content) => content.slice(0, stripFrontmatter(content).frontmatterEndIndex) + note);
+
+            // Tags are only rewritten when they differ, so mapped tags stay as they are
+            const remoteTags = post.tags ?? [];
+            const tagsDiffer = remoteTags.some(tag => !noteTags.some(noteTag => matchesTag(noteTag, tag)))
+                || noteTags.some(noteTag => !remoteTags.some(tag => matchesTag(noteTag, tag)));
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                if (post.title !== (frontmatter.title || file.basename)) {
+                    frontmatter.title = post.title;
+                }
+                if (tagsDiffer) {
+                    frontmatter.tags = remoteTags.map(tag => tag.name);
+                }
+                applyGhostPostFields(frontmatter, post, site, type);
+            });
+
+            await this.saveSnapshot(site, post, note);
+            new Notice(`Pulled "${post.title}" from ghost into the note`);
+        } catch (error) {
+            new Notice(`Failed to pull from ghost: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Remember a post as it was just published or pulled, so later edits on either side can be told apart
+     * Ghost versions that don't return the post's HTML get no snapshot
+     */
+    private async saveSnapshot(site: GhostSite, post: GhostPostResponse['posts'][0], note: string): Promise<void> {
+        if (post.html === undefined) {
+            return;
+        }
+
+        try {
+            await this.snapshots.set(site.id, {
+                postId: post.id,
+                publishedAt: new Date().toISOString(),
+                updatedAt: post.updated_at,
+                title: post.title,
+                tags: (post.tags ?? []).map(tag => ({ name: tag.name, slug: tag.slug })),
+                content: convertHtmlToMarkdown(post.html ?? ''),
+                note
+            });
+        } catch (error) {
+            new Notice(`Failed to save the publish snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Open the batch publish modal for a folder, or for the active note's folder
+     * The vault root is never preselected; the user has to pick a folder
+     */
+    private publishFolder(folder: TFolder | null) {
+        if (!this.settings.sites.some(isSiteConfigured)) {
+            new Notice('Please configure your ghost credentials in settings first');
+            return;
+        }
+        const target = folder ?? this.app.workspace.getActiveFile()?.parent ?? null;
+        new BatchPublishModal(this.app, this, { folder: target && !target.isRoot() ? target : null }).open();
+    }
+
+    /**
+     * Open the batch publish modal for notes selected in the file explorer
+     */
+    private publishFiles(files: TFile[]) {
+        if (!this.settings.sites.some(isSiteConfigured)) {
+            new Notice('Please configure your ghost credentials in settings first');
+            return;
+        }
+        new BatchPublishModal(this.app, this, { files }).open();
+    }
+
+    /**
+     * Open the import modal to pull posts from ghost into the vault
+     */
+    private importPosts() {
+        const site = this.getDefaultSite();
+        if (!site || !isSiteConfigured(site)) {
+            new Notice('Please configure your ghost credentials in settings first');
+            return;
+        }
+
+        new ImportModal(
+            this.app,
+            this.settings.sites.filter(isSiteConfigured),
+            site
+        ).open();
+    }
+
+    /**
+     * Forget all cached image uploads so the next publish uploads every image again
+     */
+    private async clearImageCache() {
+        const count = this.imageCache.count();
+        await this.imageCache.clear();
+        new Notice(`Cleared ${count} cached image upload${count === 1 ? '' : 's'}`);
+    }
+
+    /**
+     * Check that cached image URLs still resolve and drop the broken ones
+     */
+    private async verifyImageCache() {
+        if (this.imageCache.count() === 0) {
+            new Notice('The image cache is empty');
+            return;
+        }
+
+        const progress = new Notice('Checking cached images...', 0);
+        try {
+            const result = await this.imageCache.verify((checked, total) => {
+                progress.setMessage(`Checking cached images (${checked}/${total})...`);
+            });
+            let message = `${result.valid} cached image${result.valid === 1 ? '' : 's'} OK, ${result.removed} broken removed`;
+            if (result.unchecked > 0) {
+                message += `, ${result.unchecked} could not be checked`;
+            }
+            new Notice(message);
+        } finally {
+            progress.hide();
+        }
+    }
+
+    /**
+     * Record the ghost post's identity and URL in the note's frontmatter
+     * This lets the next publish update the post and lets other plugins query where the note went
+     */
+    async linkNoteToPost(file: TFile, post: GhostPostResponse['posts'][0], site: GhostSite, type: PostType): Promise<void> {
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                applyGhostPostFields(frontmatter, post, site, type);
+            });
+        } catch (error) {
+            new Notice(`Failed to link note to ghost post: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Remove the ghost post fields from a note whose post was deleted
+     */
+    private async unlinkNote(file: TFile): Promise<void> {
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                clearGhostPostFields(frontmatter);
+            });
+        } catch (error) {
+            new Notice(`Failed to unlink note from ghost post: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Move an archived note back to where it was before publishing
+     */
+    private async restoreNote(file: TFile, originalPath: string): Promise<void> {
+        if (this.app.vault.getAbstractFileByPath(originalPath)) {
+            new Notice(`Could not move the note back: ${originalPath} already exists`);
+            return;
+        }
+
+        try {
+            // Recreate the original folder if it was removed in the meantime
+            const folder = originalPath.substring(0, originalPath.lastIndexOf('/'));
+            if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            await this.app.fileManager.renameFile(file, originalPath);
+        } catch (error) {
+            new Notice(`Failed to move the note back: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Archive the note by moving it to the site's archive folder
      */
-    private async archiveNote(file: TFile): Promise<void> {
-        const archiveFolder = this.settings.archiveFolder;
+    private async archiveNote(file: TFile, site: GhostSite): Promise<void> {
+        const archiveFolder = site.archiveFolder;
 
-        // Skip if no archive folder is configured
-        if (!archiveFolder) {
+        // Skip if no archive folder is configured, or the note is already in it
+        if (!archiveFolder || file.parent?.path === normalizePath(archiveFolder)) {
             return;
         }
 
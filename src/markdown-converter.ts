@@ -1,11 +1,12 @@
 import Showdown from 'showdown';
-import { ImageReference } from './types';
+import { htmlToMarkdown } from 'obsidian';
+import { ImageReference, LexicalDocument, LexicalNode, GhostBookmarkMetadata, CalloutStyle, DEFAULT_CALLOUT_STYLES } from './types';
 
 /**
  * Remove YAML frontmatter from markdown content
  * Returns the content without frontmatter and the frontmatter end position
  */
-function stripFrontmatter(markdown: string): { content: string; frontmatterEndIndex: number } {
+export function stripFrontmatter(markdown: string): { content: string; frontmatterEndIndex: number } {
     const frontmatterRegex = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
     const match = markdown.match(frontmatterRegex);
     if (match) {
@@ -24,6 +25,41 @@ function isLocalPath(path: string): boolean {
     return !path.startsWith('http://') && !path.startsWith('https://') && !path.startsWith('data:');
 }
 
+/**
+ * Read an image given in frontmatter as a path, [[wiki link]] or ![](markdown) embed
+ * Returns null for remote URLs, which Ghost can use as they are
+ */
+export function parseFrontmatterImage(value: string): ImageReference | null {
+    const trimmed = value.trim();
+    const wikiMatch = trimmed.match(/^!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+    const markdownMatch = trimmed.match(/^!\[[^\]]*\]\(([^)]+)\)$/);
+    const path = wikiMatch
+        ? wikiMatch[1].trim()
+        : markdownMatch ? safeDecodeURI(markdownMatch[1].trim()) : trimmed;
+
+    if (!path || !isLocalPath(path)) {
+        return null;
+    }
+
+    return {
+        originalSyntax: trimmed,
+        path,
+        alt: '',
+        isEmbed: wikiMatch !== null,
+        isFirstLine: false
+    };
+}
+
+// File types that can be embedded as images
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'];
+
+/**
+ * Check if an embed target is an image file
+ */
+function isImagePath(path: string): boolean {
+    return IMAGE_EXTENSIONS.includes(path.split('.').pop()?.toLowerCase() || '');
+}
+
 /**
  * Extract all images from markdown content
  * Handles both ![alt](path) and ![[path]] syntax
@@ -34,6 +70,9 @@ function extractAllImages(markdown: string): ImageReference[] {
     // Strip frontmatter first
     const { content } = stripFrontmatter(markdown);
 
+    // Images shown inside code aren't uploaded; positions are kept for the line numbers below
+    const searchable = maskCode(content);
+
     // Find the first non-empty line to determine featured image
     const lines = content.split(/\r?\n/);
     let firstContentLineIndex = -1;
@@ -47,7 +86,7 @@ function extractAllImages(markdown: string): ImageReference[] {
     // Match standard markdown images: ![alt](path)
     const markdownImageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
     let match;
-    while ((match = markdownImageRegex.exec(content)) !== null) {
+    while ((match = markdownImageRegex.exec(searchable)) !== null) {
         const path = match[2];
         if (isLocalPath(path)) {
             // Determine if this is on the first content line
@@ -67,13 +106,9 @@ function extractAllImages(markdown: string): ImageReference[] {
 
     // Match Obsidian embed images: ![[path]] or ![[path|alt]]
     const embedImageRegex = /!\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
-    while ((match = embedImageRegex.exec(content)) !== null) {
+    while ((match = embedImageRegex.exec(searchable)) !== null) {
         const path = match[1];
-        // Check if it looks like an image file
-        const ext = path.split('.').pop()?.toLowerCase() || '';
-        const imageExtensions = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'];
-
-        if (imageExtensions.includes(ext)) {
+        if (isImagePath(path)) {
             // Determine if this is on the first content line
             const beforeMatch = content.substring(0, match.index);
             const lineNumber = beforeMatch.split(/\r?\n/).length - 1;
@@ -93,14 +128,140 @@ function extractAllImages(markdown: string): ImageReference[] {
 }
 
 /**
- * Convert Obsidian-specific wiki links to plain text
- * [[Page Name]] -> Page Name
- * [[Page Name|Display Text]] -> Display Text
+ * Turn a heading into the anchor ID Ghost gives it
  */
-function convertWikiLinks(markdown: string): string {
-    return markdown.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, link, display) => {
-        return display || link;
-    });
+function slugifyHeading(heading: string): string {
+    return heading
+        .trim()
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, '')
+        .replace(/[\s_]+/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Build the href for a link to a note (and optional heading)
+ * Returns null when the target note hasn't been published, recording a warning
+ */
+function resolveNoteHref(linkpath: string, heading: string, options: ConversionOptions, warnings: string[]): string | null {
+    const anchor = heading ? `#${slugifyHeading(heading)}` : '';
+
+    // [[#Heading]] points into the current post
+    if (!linkpath) {
+        return anchor || null;
+    }
+
+    const url = options.resolveNoteUrl?.(linkpath);
+    if (!url) {
+        const warning = `"${linkpath}" is not published to ghost yet, so links to it were left as plain text`;
+        if (!warnings.includes(warning)) {
+            warnings.push(warning);
+        }
+        return null;
+    }
+
+    return `${url}${anchor}`;
+}
+
+/**
+ * Split a link target into the note path and heading; block references (#^id) link to the note
+ */
+function splitLinkTarget(target: string): { linkpath: string; heading: string } {
+    const hashIndex = target.indexOf('#');
+    if (hashIndex === -1) {
+        return { linkpath: target.trim(), heading: '' };
+    }
+    const subpath = target.substring(hashIndex + 1).trim();
+    return {
+        linkpath: target.substring(0, hashIndex).trim(),
+        heading: subpath.startsWith('^') ? '' : subpath
+    };
+}
+
+/**
+ * Blank out fenced code blocks and inline code spans, keeping every other character in place
+ */
+function maskCode(markdown: string): string {
+    let inFence = false;
+    return markdown.split('\n').map(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) {
+            return ' '.repeat(line.length);
+        }
+        return line.replace(/`+[^`]*`+/g, code => ' '.repeat(code.length));
+    }).join('\n');
+}
+
+/**
+ * Apply a replacement to markdown outside fenced code blocks and inline code spans
+ */
+function replaceOutsideCode(markdown: string, replace: (text: string) => string): string {
+    let inFence = false;
+    return markdown.split(/\r?\n/).map(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return line;
+        }
+        if (inFence) {
+            return line;
+        }
+        // Odd parts are inline code spans
+        return line.split(/(`+[^`]*`+)/).map((part, index) => index % 2 === 1 ? part : replace(part)).join('');
+    }).join('\n');
+}
+
+/**
+ * Convert Obsidian wiki links to links to the published ghost posts
+ * [[Page Name]] -> [Page Name](https://blog/page-name/)
+ * [[Page Name#Heading|Display Text]] -> [Display Text](https://blog/page-name/#heading)
+ * Links to unpublished notes are flattened to their display text; links inside code are left alone
+ */
+function convertWikiLinks(markdown: string, options: ConversionOptions, warnings: string[]): string {
+    return replaceOutsideCode(markdown, part => part.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, display?: string) => {
+        const { linkpath, heading } = splitLinkTarget(target);
+        // Match Obsidian's default display text, e.g. "Page Name > Heading"
+        const text = display || (linkpath && heading ? `${linkpath} > ${heading}` : linkpath || heading);
+        const href = resolveNoteHref(linkpath, heading, options, warnings);
+        return href ? `[${text}](${href})` : markFlattenedLink(text, linkpath, options);
+    }));
+}
+
+/**
+ * Convert relative markdown links to notes the same way as wiki links
+ * [Text](Other%20Note.md#Heading) -> [Text](https://blog/other-note/#heading)
+ */
+function convertNoteLinks(markdown: string, options: ConversionOptions, warnings: string[]): string {
+    return replaceOutsideCode(markdown, part => part.replace(/(!?)\[([^\]]*)\]\(<?([^)\s>]+\.md)(#[^)\s>]*)?>?\)/gi, (original, bang: string, text: string, path: string, fragment?: string) => {
+        // Leave embeds and external URLs alone
+        if (bang || !isLocalPath(path)) {
+            return original;
+        }
+        const { heading } = splitLinkTarget(safeDecodeURI(fragment || ''));
+        const linkpath = safeDecodeURI(path);
+        const href = resolveNoteHref(linkpath, heading, options, warnings);
+        return href ? `[${text}](${href})` : markFlattenedLink(text, linkpath, options);
+    }));
+}
+
+/**
+ * Wrap content the conversion changed in a highlight, for the publish preview
+ */
+function markChange(html: string, description: string, dropped = false): string {
+    return `<span class="ghosty-posty-change${dropped ? ' is-dropped' : ''}" title="${escapeHtml(description)}">${html}</span>`;
+}
+
+/**
+ * Show the text of a link that was flattened, highlighted when previewing
+ */
+function markFlattenedLink(text: string, linkpath: string, options: ConversionOptions): string {
+    if (!options.markChanges || !linkpath) {
+        return text;
+    }
+    return markChange(text, `Link to "${linkpath}" removed because the note isn't published`);
 }
 
 /**
@@ -108,26 +269,345 @@ function convertWikiLinks(markdown: string): string {
  * ![[image.png]] -> ![](image.png)
  * ![[image.png|alt text]] -> ![alt text](image.png)
  * Paths with spaces are URL-encoded so markdown parsers handle them correctly
+ * Other embeds (notes, PDFs, audio, video) can't be published and are removed; embeds inside code are left alone
  */
-function convertImageEmbeds(markdown: string): string {
-    return markdown.replace(/!\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, path, alt) => {
+function convertImageEmbeds(markdown: string, options: ConversionOptions, warnings: string[]): string {
+    return replaceOutsideCode(markdown, part => part.replace(/!\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (original: string, path: string, alt?: string) => {
+        if (!isImagePath(path)) {
+            const warning = `Embedded "${path.trim()}" can't be published to ghost and was removed`;
+            if (!warnings.includes(warning)) {
+                warnings.push(warning);
+            }
+            // Brackets are escaped so the embed isn't converted again as a wiki link
+            const escaped = escapeHtml(original).replace(/\[/g, '&#91;').replace(/\]/g, '&#93;');
+            return options.markChanges ? markChange(escaped, 'Embed removed: only images can be embedded in ghost', true) : '';
+        }
+
         // URL-encode the path to handle spaces and special characters
         const encodedPath = encodeURI(path);
         return `![${alt || ''}](${encodedPath})`;
+    }));
+}
+
+/**
+ * Alternative names Obsidian accepts for its built-in callout types
+ */
+const CALLOUT_ALIASES: Record<string, string> = {
+    summary: 'abstract',
+    tldr: 'abstract',
+    hint: 'tip',
+    important: 'tip',
+    check: 'success',
+    done: 'success',
+    help: 'question',
+    faq: 'question',
+    caution: 'warning',
+    attention: 'warning',
+    fail: 'failure',
+    missing: 'failure',
+    error: 'danger',
+    cite: 'quote'
+};
+
+/**
+ * Escape text for use inside HTML
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Showdown opens every link in a new window; links within the post or site (e.g. to a heading) stay in the page
+ */
+const localLinksInSameWindow: Showdown.ShowdownExtension = {
+    type: 'output',
+    regex: /(<a href="(?!https?:\/\/|\/\/)[^"]*"(?: title="[^"]*")?) rel="noopener noreferrer" target="_blank">/g,
+    replace: '$1>'
+};
+
+/**
+ * Create the Showdown converter used for all markdown rendering
+ */
+function createConverter(): Showdown.Converter {
+    return new Showdown.Converter({
+        tables: true,
+        tasklists: true,
+        strikethrough: true,
+        ghCodeBlocks: true,
+        emoji: true,
+        simpleLineBreaks: false,
+        openLinksInNewWindow: true,
+        headerLevelStart: 1,
+        extensions: [localLinksInSameWindow]
     });
 }
 
+// Chevron Ghost shows on toggle cards
+const TOGGLE_ICON = '<svg id="Regular" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path class="cls-1" d="M23.25,7.311,12.53,18.03a.749.749,0,0,1-1.06,0L.75,7.311"></path></svg>';
+
+/**
+ * Render a single callout as a Ghost callout card, or as Ghost's alternative
+ * blockquote style when the type has no configured style
+ * Collapsed callouts (fold marker "-") become toggle cards, which Ghost shows closed until clicked;
+ * Ghost has no callout that starts open and can be folded, so "+" callouts are published expanded
+ */
+function renderCallout(type: string, fold: string, title: string, bodyHtml: string, options: ConversionOptions, converter: Showdown.Converter): string {
+    const normalizedType = type.toLowerCase();
+    const style = options.calloutStyles[normalizedType] || options.calloutStyles[CALLOUT_ALIASES[normalizedType]];
+
+    // Obsidian shows the capitalized type when no title is given
+    const titleText = title || normalizedType.charAt(0).toUpperCase() + normalizedType.slice(1);
+    const titleHtml = converter.makeHtml(titleText).replace(/^<p>([\s\S]*)<\/p>$/, '$1');
+
+    if (fold === '-') {
+        return '<div class="kg-card kg-toggle-card" data-kg-toggle-state="close">' +
+            `<div class="kg-toggle-heading"><h4 class="kg-toggle-heading-text">${titleHtml}</h4>` +
+            `<button class="kg-toggle-card-icon" aria-label="Expand toggle to read content">${TOGGLE_ICON}</button></div>` +
+            `<div class="kg-toggle-content">${bodyHtml}</div>` +
+            '</div>';
+    }
+
+    const content = `<p><strong>${titleHtml}</strong></p>${bodyHtml}`;
+
+    if (!style) {
+        return `<blockquote class="kg-blockquote-alt">${content}</blockquote>`;
+    }
+
+    return `<div class="kg-card kg-callout-card kg-callout-card-${style.color}">` +
+        `<div class="kg-callout-emoji">${escapeHtml(style.emoji)}</div>` +
+        `<div class="kg-callout-text">${content}</div>` +
+        '</div>';
+}
+
+/**
+ * Render markdown to HTML, turning Obsidian callouts into Ghost cards
+ * Callouts are swapped for placeholders before Showdown runs so their markers
+ * never reach the output; nested callouts are handled by rendering bodies recursively
+ */
+function renderMarkdown(markdown: string, options: ConversionOptions, converter: Showdown.Converter): string {
+    const lines = markdown.split(/\r?\n/);
+    const output: string[] = [];
+    const callouts: string[] = [];
+    let inFence = false;
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // Leave blockquotes inside fenced code alone
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+
+        // > [!type]+/- Optional title
+        const match = inFence ? null : line.match(/^>\s?\[!([\w-]+)\]([+-]?)\s*(.*)$/);
+        if (!match) {
+            output.push(line);
+            i++;
+            continue;
+        }
+
+        // Collect the callout body, removing one level of quoting
+        const body: string[] = [];
+        i++;
+        while (i < lines.length && lines[i].startsWith('>')) {
+            body.push(lines[i].replace(/^>\s?/, ''));
+            i++;
+        }
+
+        const bodyHtml = renderMarkdown(body.join('\n'), options, converter);
+        callouts.push(renderCallout(match[1], match[2], match[3].trim(), bodyHtml, options, converter));
+        output.push('', `GHOSTYPOSTYCALLOUT${callouts.length - 1}`, '');
+    }
+
+    let html = converter.makeHtml(output.join('\n'));
+    callouts.forEach((callout, index) => {
+        html = html.replace(`<p>GHOSTYPOSTYCALLOUT${index}</p>`, () => callout);
+    });
+    return html;
+}
+
+// Ghost's boundary between the free preview and members-only content
+const PAYWALL_COMMENT = '<!--members-only-->';
+
+/**
+ * Replace the first paywall marker line (%% paywall %% or ---paywall---) with a placeholder
+ * Markers inside fenced code are left alone; any later markers are dropped with a warning
+ */
+function markPaywall(markdown: string, warnings: string[]): { markdown: string; hasPaywall: boolean } {
+    const lines = markdown.split(/\r?\n/);
+    let inFence = false;
+    let hasPaywall = false;
+
+    const output = lines.flatMap(line => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+        if (inFence || !/^\s*(%%\s*paywall\s*%%|---\s*paywall\s*---)\s*$/i.test(line)) {
+            return [line];
+        }
+        if (hasPaywall) {
+            warnings.push('Only the first paywall marker is used; later ones were removed');
+            return [];
+        }
+        hasPaywall = true;
+        return ['', 'GHOSTYPOSTYPAYWALL', ''];
+    });
+
+    return { markdown: output.join('\n'), hasPaywall };
+}
+
+/**
+ * A footnote, numbered in order of its first reference
+ */
+interface Footnote {
+    // Markdown of the [^label]: definition or the inline ^[note]
+    content: string;
+    // Each reference gets its own back-link
+    refCount: number;
+}
+
+/**
+ * Get the id of a footnote reference; later references to the same footnote get a suffix
+ */
+function getFootnoteRefId(number: number, refIndex: number): string {
+    return refIndex === 1 ? `fnref${number}` : `fnref${number}-${refIndex}`;
+}
+
+/**
+ * Replace Obsidian footnotes ([^label] references with [^label]: definitions, and
+ * inline ^[notes]) with superscript links, collecting the footnotes in order of first reference
+ * Definitions are removed from the markdown; footnotes inside code are left alone
+ */
+function extractFootnotes(markdown: string, warnings: string[]): { markdown: string; footnotes: Footnote[] } {
+    const lines = markdown.split(/\r?\n/);
+    const definitions = new Map<string, string>();
+    const body: string[] = [];
+    let inFence = false;
+
+    // Collect definitions first, since references usually come before them
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+        const match = inFence ? null : line.match(/^\[\^([^\]\s]+)\]:[ \t]?(.*)$/);
+        if (!match) {
+            body.push(line);
+            continue;
+        }
+
+        // Indented lines continue the definition, including after a blank line
+        const content = [match[2]];
+        const isIndented = (next: string | undefined) => next !== undefined && /^( {4}|\t)/.test(next);
+        while (isIndented(lines[i + 1]) || (lines[i + 1]?.trim() === '' && isIndented(lines[i + 2]))) {
+            content.push(lines[++i].replace(/^( {4}|\t)/, ''));
+        }
+
+        const label = match[1];
+        if (definitions.has(label)) {
+            warnings.push(`Footnote [^${label}] is defined more than once; only the first definition is used`);
+        } else {
+            definitions.set(label, content.join('\n'));
+        }
+    }
+
+    const footnotes: Footnote[] = [];
+    const numbers = new Map<string, number>();
+    const undefinedLabels = new Set<string>();
+
+    const replaceReferences = (text: string) => text.replace(
+        /\^\[((?:[^[\]]|\[[^\]]*\])+)\]|\[\^([^\]\s]+)\]/g,
+        (original: string, inline?: string, label?: string) => {
+            let number: number;
+            if (inline !== undefined) {
+                footnotes.push({ content: inline, refCount: 0 });
+                number = footnotes.length;
+            } else {
+                const key = label ?? '';
+                const content = definitions.get(key);
+                if (content === undefined) {
+                    undefinedLabels.add(key);
+                    return original;
+                }
+                if (!numbers.has(key)) {
+                    footnotes.push({ content, refCount: 0 });
+                    numbers.set(key, footnotes.length);
+                }
+                number = numbers.get(key) ?? footnotes.length;
+            }
+            const footnote = footnotes[number - 1];
+            footnote.refCount++;
+            return `<sup class="footnote-ref"><a href="#fn${number}" id="${getFootnoteRefId(number, footnote.refCount)}">${number}</a></sup>`;
+        }
+    );
+
+    const output = replaceOutsideCode(body.join('\n'), replaceReferences);
+
+    for (const label of undefinedLabels) {
+        warnings.push(`Footnote [^${label}] has no definition and was left as text`);
+    }
+    for (const label of definitions.keys()) {
+        if (!numbers.has(label)) {
+            warnings.push(`Footnote [^${label}] is never referenced and was left out`);
+        }
+    }
+
+    return { markdown: output, footnotes };
+}
+
+/**
+ * Render the numbered footnotes section, with a back-link to each reference
+ */
+function renderFootnotes(footnotes: Footnote[], options: ConversionOptions, converter: Showdown.Converter): string {
+    if (footnotes.length === 0) {
+        return '';
+    }
+
+    const items = footnotes.map((footnote, index) => {
+        const number = index + 1;
+        const backrefs = Array.from({ length: footnote.refCount }, (_, refIndex) =>
+            `<a href="#${getFootnoteRefId(number, refIndex + 1)}" class="footnote-backref">↩︎</a>`
+        ).join(' ');
+
+        // Back-links go at the end of the last paragraph, as in Obsidian
+        const html = renderMarkdown(footnote.content, options, converter).trim();
+        const content = html.endsWith('</p>') ? `${html.slice(0, -'</p>'.length)} ${backrefs}</p>` : `${html}<p>${backrefs}</p>`;
+        return `<li id="fn${number}" class="footnote-item">${content}</li>`;
+    });
+
+    return `\n<hr class="footnotes-sep">\n<section class="footnotes">\n<ol class="footnotes-list">\n${items.join('\n')}\n</ol>\n</section>`;
+}
+
+export interface ConversionOptions {
+    calloutStyles: Record<string, CalloutStyle>;
+    // Returns the ghost URL of a published note, or null if it isn't published
+    resolveNoteUrl?: (linkpath: string) => string | null;
+    // Highlight flattened links, removed embeds and the paywall, for previewing rather than publishing
+    markChanges?: boolean;
+}
+
+const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+    calloutStyles: DEFAULT_CALLOUT_STYLES
+};
+
 export interface ConversionResult {
     html: string;
     warnings: string[];
     images: ImageReference[];
     featuredImage: ImageReference | null;
+    // Whether the note has a paywall marker; it only matters for members-only posts
+    hasPaywall: boolean;
 }
 
 /**
  * Convert Obsidian markdown to HTML for Ghost
  */
-export function convertMarkdownToHtml(markdown: string): ConversionResult {
+export function convertMarkdownToHtml(markdown: string, options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS): ConversionResult {
     const warnings: string[] = [];
 
     // Extract all images first
@@ -164,30 +644,31 @@ export function convertMarkdownToHtml(markdown: string): ConversionResult {
     }
 
     // Convert Obsidian embeds to standard markdown (for images)
-    processed = convertImageEmbeds(processed);
+    processed = convertImageEmbeds(processed, options, warnings);
 
-    // Convert wiki links to plain text
-    processed = convertWikiLinks(processed);
+    // Convert wiki links and note links to ghost URLs (or plain text if unpublished)
+    processed = convertWikiLinks(processed, options, warnings);
+    processed = convertNoteLinks(processed, options, warnings);
 
-    // Convert to HTML using Showdown
-    const converter = new Showdown.Converter({
-        tables: true,
-        tasklists: true,
-        strikethrough: true,
-        ghCodeBlocks: true,
-        emoji: true,
-        simpleLineBreaks: false,
-        openLinksInNewWindow: true,
-        headerLevelStart: 1
-    });
+    // Turn footnote references into links to a footnotes section at the end
+    const footnotes = extractFootnotes(processed, warnings);
+
+    // Mark where the free preview ends
+    const paywall = markPaywall(footnotes.markdown, warnings);
 
-    const html = converter.makeHtml(processed);
+    // Convert to HTML using Showdown, with callouts as Ghost cards
+    const converter = createConverter();
+    const html = renderMarkdown(paywall.markdown, options, converter)
+        .replace('<p>GHOSTYPOSTYPAYWALL</p>', options.markChanges
+            ? '<p class="ghosty-posty-change ghosty-posty-paywall">Members-only content starts here</p>'
+            : PAYWALL_COMMENT) + renderFootnotes(footnotes.footnotes, options, converter);
 
     return {
         html,
         warnings,
         images: contentImages,
-        featuredImage
+        featuredImage,
+        hasPaywall: paywall.hasPaywall
     };
 }
 
@@ -212,3 +693,462 @@ export function replaceImageUrls(html: string, urlMap: Map<string, string>): str
 
     return result;
 }
+
+/**
+ * Remove images with the given local paths from HTML (used when publishing without failed uploads)
+ */
+export function removeImages(html: string, paths: string[]): string {
+    let result = html;
+
+    for (const path of paths) {
+        for (const pathVariant of [path, encodeURI(path)]) {
+            const escapedPath = pathVariant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const regex = new RegExp(`<img\\b[^>]*\\bsrc=["']${escapedPath}["'][^>]*>`, 'g');
+            result = result.replace(regex, '');
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Lexical text format bit flags, as used by Ghost's editor
+ */
+const TEXT_FORMAT = {
+    bold: 1,
+    italic: 2,
+    strikethrough: 4,
+    underline: 8,
+    code: 16,
+    subscript: 32,
+    superscript: 64
+};
+
+/**
+ * Create a Lexical element node with the default layout properties
+ */
+function createElementNode(type: string, children: LexicalNode[], extra: Record<string, unknown> = {}): LexicalNode {
+    return {
+        children,
+        direction: 'ltr',
+        format: '',
+        indent: 0,
+        type,
+        version: 1,
+        ...extra
+    };
+}
+
+/**
+ * Create a Lexical text node with the given format flags
+ */
+function createTextNode(text: string, format = 0): LexicalNode {
+    return {
+        detail: 0,
+        format,
+        mode: 'normal',
+        style: '',
+        text,
+        type: 'extended-text',
+        version: 1
+    };
+}
+
+/**
+ * Create a Ghost html card holding markup that has no Lexical equivalent
+ */
+function createHtmlCard(html: string): LexicalNode {
+    return { type: 'html', version: 1, html };
+}
+
+/**
+ * Create a Ghost image card from an <img> element
+ */
+function createImageCard(img: HTMLImageElement, caption = ''): LexicalNode {
+    return {
+        type: 'image',
+        version: 1,
+        src: img.getAttribute('src') || '',
+        width: null,
+        height: null,
+        title: '',
+        alt: img.getAttribute('alt') || '',
+        // The markdown image title ![alt](src "caption") becomes the card caption
+        caption: caption || img.getAttribute('title') || '',
+        cardWidth: 'regular',
+        href: ''
+    };
+}
+
+/**
+ * Convert inline HTML content to Lexical text, link and line break nodes
+ */
+function convertInlineNodes(parent: Node, format = 0): LexicalNode[] {
+    const nodes: LexicalNode[] = [];
+
+    parent.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE) {
+            // Soft line breaks in the markdown source render as spaces
+            const text = (child.textContent || '').replace(/\s*\r?\n\s*/g, ' ');
+            if (text !== '') {
+                nodes.push(createTextNode(text, format));
+            }
+            return;
+        }
+
+        if (!(child instanceof HTMLElement)) {
+            return;
+        }
+
+        switch (child.tagName) {
+            case 'STRONG':
+            case 'B':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.bold));
+                break;
+            case 'EM':
+            case 'I':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.italic));
+                break;
+            case 'DEL':
+            case 'S':
+            case 'STRIKE':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.strikethrough));
+                break;
+            case 'U':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.underline));
+                break;
+            case 'CODE':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.code));
+                break;
+            case 'SUB':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.subscript));
+                break;
+            case 'SUP':
+                nodes.push(...convertInlineNodes(child, format | TEXT_FORMAT.superscript));
+                break;
+            case 'BR':
+                nodes.push({ type: 'linebreak', version: 1 });
+                break;
+            case 'A':
+                nodes.push(createElementNode('link', convertInlineNodes(child, format), {
+                    rel: 'noreferrer',
+                    target: child.getAttribute('target'),
+                    title: child.getAttribute('title'),
+                    url: child.getAttribute('href') || ''
+                }));
+                break;
+            case 'INPUT':
+            case 'IMG':
+                // Checkboxes are list item state; images are split out as cards
+                break;
+            default:
+                nodes.push(...convertInlineNodes(child, format));
+        }
+    });
+
+    return nodes;
+}
+
+/**
+ * Check whether an element is an image, optionally wrapped in a link
+ */
+function getStandaloneImage(el: Element): HTMLImageElement | null {
+    if (el instanceof HTMLImageElement) {
+        return el;
+    }
+    if (el.tagName === 'A' && el.children.length === 1 && el.children[0] instanceof HTMLImageElement && (el.textContent || '').trim() === '') {
+        return el.children[0];
+    }
+    return null;
+}
+
+/**
+ * Convert a paragraph, splitting out images as image cards and bare URLs as bookmark cards
+ */
+function convertParagraph(p: HTMLElement): LexicalNode[] {
+    // A paragraph holding nothing but a URL becomes a bookmark card
+    const text = (p.textContent || '').trim();
+    if (p.children.length === 0 && /^https?:\/\/\S+$/.test(text)) {
+        return [{
+            type: 'bookmark',
+            version: 1,
+            url: text,
+            metadata: {},
+            caption: ''
+        }];
+    }
+
+    const nodes: LexicalNode[] = [];
+    let pending = document.createElement('p');
+
+    const flush = () => {
+        // Skip the whitespace left around split-out images
+        if ((pending.textContent || '').trim() !== '') {
+            nodes.push(createElementNode('paragraph', convertInlineNodes(pending)));
+        }
+        pending = document.createElement('p');
+    };
+
+    Array.from(p.childNodes).forEach(child => {
+        const image = child instanceof Element ? getStandaloneImage(child) : null;
+        if (image) {
+            flush();
+            nodes.push(createImageCard(image));
+        } else {
+            pending.appendChild(child.cloneNode(true));
+        }
+    });
+    flush();
+
+    return nodes;
+}
+
+/**
+ * Convert a <ul> or <ol> to a Lexical list, with nested lists in their own list items
+ */
+function convertList(list: HTMLElement): LexicalNode {
+    const items = Array.from(list.children).filter(child => child.tagName === 'LI');
+    const isChecklist = items.some(item => item.querySelector(':scope > input[type="checkbox"]'));
+    const listType = isChecklist ? 'check' : list.tagName === 'OL' ? 'number' : 'bullet';
+    const start = parseInt(list.getAttribute('start') || '1', 10) || 1;
+
+    const children: LexicalNode[] = [];
+    let value = start;
+    items.forEach(item => {
+        const content = document.createElement('span');
+        const nestedLists: HTMLElement[] = [];
+
+        item.childNodes.forEach(child => {
+            if (child instanceof HTMLElement && (child.tagName === 'UL' || child.tagName === 'OL')) {
+                nestedLists.push(child);
+            } else if (child instanceof HTMLElement && child.tagName === 'P') {
+                // Loose lists wrap item text in paragraphs
+                if (content.childNodes.length > 0) {
+                    content.appendChild(document.createElement('br'));
+                }
+                child.childNodes.forEach(grandchild => content.appendChild(grandchild.cloneNode(true)));
+            } else {
+                content.appendChild(child.cloneNode(true));
+            }
+        });
+
+        // Drop the space between a task checkbox and its text
+        const itemChildren = convertInlineNodes(content);
+        if (itemChildren[0]?.type === 'extended-text') {
+            itemChildren[0].text = String(itemChildren[0].text).replace(/^\s+/, '');
+        }
+
+        const checkbox = item.querySelector(':scope > input[type="checkbox"]');
+        children.push(createElementNode('listitem', itemChildren, {
+            value,
+            ...(isChecklist && { checked: checkbox instanceof HTMLInputElement ? checkbox.checked || checkbox.hasAttribute('checked') : false })
+        }));
+        value++;
+
+        nestedLists.forEach(nested => {
+            children.push(createElementNode('listitem', [convertList(nested)], { value }));
+            value++;
+        });
+    });
+
+    return createElementNode('list', children, {
+        listType,
+        start,
+        tag: list.tagName === 'OL' ? 'ol' : 'ul'
+    });
+}
+
+/**
+ * Convert a block-level HTML element to Lexical nodes
+ */
+function convertBlockElement(el: HTMLElement): LexicalNode[] {
+    // Lexical text can't keep the ids footnote back-links point to, so blocks with footnote references stay as HTML
+    if (!el.classList.contains('kg-callout-card') && !el.classList.contains('kg-toggle-card') && el.querySelector('.footnote-ref')) {
+        return [createHtmlCard(el.outerHTML)];
+    }
+
+    switch (el.tagName) {
+        case 'P':
+            return convertParagraph(el);
+        case 'H1':
+        case 'H2':
+        case 'H3':
+        case 'H4':
+        case 'H5':
+        case 'H6':
+            return [createElementNode('extended-heading', convertInlineNodes(el), { tag: el.tagName.toLowerCase() })];
+        case 'BLOCKQUOTE': {
+            // Lexical quotes only hold inline content, so anything richer stays as HTML
+            const blocks = Array.from(el.children);
+            if (blocks.some(block => block.tagName !== 'P')) {
+                return [createHtmlCard(el.outerHTML)];
+            }
+            // Ghost's alternative blockquote style is a separate "aside" node
+            const quoteType = el.classList.contains('kg-blockquote-alt') ? 'aside' : 'extended-quote';
+            const children: LexicalNode[] = [];
+            blocks.forEach((block, index) => {
+                if (index > 0) {
+                    children.push({ type: 'linebreak', version: 1 }, { type: 'linebreak', version: 1 });
+                }
+                children.push(...convertInlineNodes(block));
+            });
+            return [createElementNode(quoteType, children)];
+        }
+        case 'UL':
+        case 'OL':
+            return [convertList(el)];
+        case 'PRE': {
+            const code = el.querySelector('code');
+            // Showdown marks fenced code with "lang language-lang"
+            const languageClass = Array.from(code?.classList || []).find(cls => cls.startsWith('language-'));
+            return [{
+                type: 'codeblock',
+                version: 1,
+                code: (code || el).textContent?.replace(/\n$/, '') || '',
+                language: languageClass ? languageClass.substring('language-'.length) : '',
+                caption: ''
+            }];
+        }
+        case 'HR':
+            return [{ type: 'horizontalrule', version: 1 }];
+        case 'IMG':
+            return [createImageCard(el as HTMLImageElement)];
+        case 'DIV': {
+            // Callout cards produced by renderCallout
+            if (el.classList.contains('kg-callout-card')) {
+                const colorClass = Array.from(el.classList).find(cls => cls.startsWith('kg-callout-card-'));
+                return [{
+                    type: 'callout',
+                    version: 1,
+                    calloutText: el.querySelector('.kg-callout-text')?.innerHTML || '',
+                    calloutEmoji: el.querySelector('.kg-callout-emoji')?.textContent || '',
+                    backgroundColor: colorClass ? colorClass.substring('kg-callout-card-'.length) : 'grey'
+                }];
+            }
+            // Toggle cards produced from collapsed callouts
+            if (el.classList.contains('kg-toggle-card')) {
+                return [{
+                    type: 'toggle',
+                    version: 1,
+                    heading: el.querySelector('.kg-toggle-heading-text')?.innerHTML || '',
+                    content: el.querySelector('.kg-toggle-content')?.innerHTML || ''
+                }];
+            }
+            return [createHtmlCard(el.outerHTML)];
+        }
+        case 'FIGURE': {
+            const img = el.querySelector('img');
+            if (img) {
+                return [createImageCard(img, el.querySelector('figcaption')?.textContent?.trim() || '')];
+            }
+            return [createHtmlCard(el.outerHTML)];
+        }
+        default:
+            return [createHtmlCard(el.outerHTML)];
+    }
+}
+
+/**
+ * Convert Ghost-ready HTML (the output of convertMarkdownToHtml, after image URLs
+ * are replaced) into a Ghost Lexical document so posts open as editable cards
+ */
+export function convertHtmlToLexical(html: string): LexicalDocument {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const children: LexicalNode[] = [];
+
+    doc.body.childNodes.forEach(node => {
+        if (node instanceof HTMLElement) {
+            children.push(...convertBlockElement(node));
+        } else if (node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim() !== '') {
+            children.push(createElementNode('paragraph', [createTextNode((node.textContent || '').trim())]));
+        } else if (node.nodeType === Node.COMMENT_NODE && (node.textContent || '').trim() === 'members-only') {
+            // The members-only boundary becomes a paywall card
+            children.push({ type: 'paywall', version: 1 });
+        }
+    });
+
+    return {
+        root: createElementNode('root', children) as LexicalDocument['root']
+    };
+}
+
+/**
+ * Fill in bookmark card metadata using the provided lookup (Ghost's oembed endpoint)
+ * Bookmarks whose metadata can't be fetched fall back to a plain link paragraph
+ */
+export async function resolveLexicalBookmarks(
+    lexical: LexicalDocument,
+    fetchMetadata: (url: string) => Promise<GhostBookmarkMetadata | null>
+): Promise<string[]> {
+    const warnings: string[] = [];
+    const children = lexical.root.children;
+
+    for (let i = 0; i < children.length; i++) {
+        const node = children[i];
+        if (node.type !== 'bookmark') {
+            continue;
+        }
+
+        const url = String(node.url);
+        const metadata = await fetchMetadata(url);
+        if (metadata) {
+            node.metadata = metadata;
+        } else {
+            warnings.push(`Could not load a bookmark preview for ${url}; it was published as a link`);
+            children[i] = createElementNode('paragraph', [createElementNode('link', [createTextNode(url)], {
+                rel: 'noreferrer',
+                target: null,
+                title: null,
+                url
+            })]);
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * Decode a URI without throwing on malformed escapes
+ */
+function safeDecodeURI(uri: string): string {
+    try {
+        return decodeURI(uri);
+    } catch {
+        return uri;
+    }
+}
+
+/**
+ * Collect the remote image URLs referenced by Ghost post HTML
+ */
+export function extractImageUrls(html: string): string[] {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const urls = new Set<string>();
+
+    doc.querySelectorAll('img').forEach(img => {
+        const src = img.getAttribute('src');
+        if (src && !isLocalPath(src)) {
+            urls.add(src);
+        }
+    });
+
+    return Array.from(urls);
+}
+
+/**
+ * Convert Ghost post HTML back to Obsidian markdown
+ * Images listed in imagePaths (remote URL -> vault path) become embeds of the downloaded files
+ */
+export function convertHtmlToMarkdown(html: string, imagePaths: Map<string, string> = new Map()): string {
+    const markdown = htmlToMarkdown(html);
+
+    // ![alt](url "title") -> ![[vault/path.png|alt]]
+    return markdown.replace(/!\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g, (original, alt: string, url: string) => {
+        const localPath = imagePaths.get(url) || imagePaths.get(safeDecodeURI(url));
+        if (!localPath) {
+            return original;
+        }
+        const cleanAlt = alt.replace(/[|\]]/g, '').trim();
+        return cleanAlt ? `![[${localPath}|${cleanAlt}]]` : `![[${localPath}]]`;
+    });
+}
@@ -0,0 +1,190 @@
+import { GhostPostPayload, GhostPostResponse, GhostSiteTag, GhostTag, GhostTier, GhostUser, ImageReference, PostFormat, PostStatus, PostVisibility, SeoField, SeoFields, SEO_IMAGE_FIELDS } from './types';
+import { GhostAPI } from './ghost-api';
+import { ConversionResult, convertHtmlToLexical, parseFrontmatterImage, replaceImageUrls, resolveLexicalBookmarks } from './markdown-converter';
+import { findGhostTag } from './tags';
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+/**
+ * Post fields as chosen in the publish dialog, or read from frontmatter when batch publishing
+ */
+export interface PostFields {
+    title: string;
+    status: PostStatus;
+    slug?: string;
+    tags: GhostTag[];
+    publishedAt?: string;
+    featured: boolean;
+    seo: SeoFields;
+    authorIds: string[];
+    visibility: PostVisibility;
+    tierIds: string[];
+    emailOnly: boolean;
+}
+
+/**
+ * Match author presets (staff emails or slugs) to staff users, keeping the order given
+ */
+export function resolveAuthors(users: GhostUser[], presets: string[]): { ids: string[]; unknown: string[] } {
+    const ids: string[] = [];
+    const unknown: string[] = [];
+    for (const preset of presets) {
+        const key = preset.toLowerCase();
+        const user = users.find(u => u.email.toLowerCase() === key || u.slug.toLowerCase() === key);
+        if (!user) {
+            unknown.push(preset);
+        } else if (!ids.includes(user.id)) {
+            ids.push(user.id);
+        }
+    }
+    return { ids, unknown };
+}
+
+/**
+ * Match tier presets (slugs or names) to the site's tiers
+ */
+export function resolveTiers(tiers: GhostTier[], presets: string[]): { ids: string[]; missing: string[] } {
+    const ids: string[] = [];
+    const missing: string[] = [];
+    for (const preset of presets) {
+        const name = preset.toLowerCase();
+        const tier = tiers.find(t => t.slug.toLowerCase() === name || t.name.toLowerCase() === name);
+        if (tier) {
+            ids.push(tier.id);
+        } else {
+            missing.push(preset);
+        }
+    }
+    return { ids, missing };
+}
+
+/**
+ * Refer to existing ghost tags by slug; the rest are created by name
+ * New tags can only be told apart when the site's tag list is known
+ */
+export function resolveTags(siteTags: GhostSiteTag[] | null, values: string[]): { tags: GhostTag[]; newTags: string[] } {
+    const tags: GhostTag[] = [];
+    const newTags: string[] = [];
+    for (const value of values) {
+        const existing = siteTags ? findGhostTag(siteTags, value) : undefined;
+        if (existing) {
+            tags.push({ slug: existing.slug });
+        } else {
+            tags.push({ name: value });
+            if (siteTags) {
+                newTags.push(value);
+            }
+        }
+    }
+    return { tags, newTags };
+}
+
+/**
+ * Collect the images a post uploads, once per path: the featured image, content images
+ * and social card images that point at vault files
+ */
+export function collectPostImages(conversionResult: ConversionResult, seo: SeoFields): { images: ImageReference[]; seoImages: Map<SeoField, ImageReference> } {
+    const collected: ImageReference[] = [
+        ...(conversionResult.featuredImage ? [conversionResult.featuredImage] : []),
+        ...conversionResult.images
+    ];
+
+    const seoImages = new Map<SeoField, ImageReference>();
+    for (const field of SEO_IMAGE_FIELDS) {
+        const image = seo[field] ? parseFrontmatterImage(seo[field] ?? '') : null;
+        if (image) {
+            seoImages.set(field, image);
+            collected.push(image);
+        }
+    }
+
+    const images = collected.filter((image, index, all) => all.findIndex(other => other.path === image.path) === index);
+    return { images, seoImages };
+}
+
+/**
+ * Point the post's HTML, featured image and social card images at the uploaded URLs
+ * Social card images that weren't uploaded are left unset
+ */
+export function applyUploadedImages(
+    html: string,
+    conversionResult: ConversionResult,
+    seo: SeoFields,
+    seoImages: Map<SeoField, ImageReference>,
+    urlMap: Map<string, string>
+): { html: string; featureImageUrl: string | undefined; seo: SeoFields } {
+    const uploadedSeo: SeoFields = { ...seo };
+    for (const [field, image] of seoImages) {
+        const url = urlMap.get(image.path);
+        if (url) {
+            uploadedSeo[field] = url;
+        } else {
+            delete uploadedSeo[field];
+        }
+    }
+
+    return {
+        html: replaceImageUrls(html, urlMap),
+        featureImageUrl: conversionResult.featuredImage ? urlMap.get(conversionResult.featuredImage.path) : undefined,
+        seo: uploadedSeo
+    };
+}
+
+/**
+ * Build the post body in the configured format
+ * Returns warnings about bookmarks whose metadata couldn't be loaded
+ */
+export async function buildPostContent(
+    api: GhostAPI,
+    html: string,
+    format: PostFormat
+): Promise<{ content: { html: string } | { lexical: string }; warnings: string[] }> {
+    if (format !== 'lexical') {
+        return { content: { html }, warnings: [] };
+    }
+
+    const lexical = convertHtmlToLexical(html);
+    const warnings = await resolveLexicalBookmarks(lexical, async (url) => {
+        const result = await api.getBookmarkMetadata(url);
+        return result.success ? result.metadata : null;
+    });
+    return { content: { lexical: JSON.stringify(lexical) }, warnings };
+}
+
+/**
+ * Build the create or update payload for a post
+ * ghostUpdatedAt is the updated_at from the last sync, which ghost uses to detect edits made since
+ * Updates always send tags and featured, since ghost keeps the old values of fields left out
+ */
+export function buildPostPayload(
+    fields: PostFields,
+    content: { html: string } | { lexical: string },
+    featureImageUrl: string | undefined,
+    existingPost: GhostPostData | null,
+    ghostUpdatedAt: string | undefined
+): GhostPostPayload {
+    return {
+        posts: [{
+            title: fields.title,
+            ...content,
+            status: fields.status,
+            ...(fields.slug && { slug: fields.slug }),
+            ...((fields.tags.length > 0 || existingPost) && { tags: fields.tags }),
+            ...(fields.publishedAt && { published_at: fields.publishedAt }),
+            ...(featureImageUrl && { feature_image: featureImageUrl }),
+            ...((fields.featured || existingPost) && { featured: fields.featured }),
+            ...fields.seo,
+            ...(fields.authorIds.length > 0 && {
+                authors: fields.authorIds.map(id => ({ id }))
+            }),
+            visibility: fields.visibility,
+            ...(fields.visibility === 'tiers' && {
+                tiers: fields.tierIds.map(id => ({ id }))
+            }),
+            ...(fields.emailOnly && { email_only: true }),
+            ...(existingPost && {
+                updated_at: ghostUpdatedAt || existingPost.updated_at
+            })
+        }]
+    };
+}
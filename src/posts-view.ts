@@ -0,0 +1,241 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import type GhostyPostyPlugin from './main';
+import { GhostPostResponse, GhostSite } from './types';
+import { GhostAPI } from './ghost-api';
+import { isSiteConfigured } from './sites';
+import { RescheduleModal } from './reschedule-modal';
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+export const POSTS_VIEW_TYPE = 'ghosty-posty-posts';
+
+// Number of drafts and published posts listed; every scheduled post is listed
+const LIST_LIMIT = 25;
+
+interface PostGroup {
+    title: string;
+    posts: GhostPostData[];
+    // Which date to show for each post
+    date: (post: GhostPostData) => string;
+}
+
+/**
+ * Side panel listing a site's drafts, scheduled posts and recently published posts
+ */
+export class PostsView extends ItemView {
+    private plugin: GhostyPostyPlugin;
+    private siteId: string = '';
+    // Increases with every refresh, so results of an outdated refresh are dropped
+    private refreshId: number = 0;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GhostyPostyPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return POSTS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Ghost posts';
+    }
+
+    getIcon(): string {
+        return 'ghost';
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    private getSite(): GhostSite | null {
+        const sites = this.plugin.settings.sites.filter(isSiteConfigured);
+        return sites.find(site => site.id === this.siteId)
+            ?? sites.find(site => site.id === this.plugin.getDefaultSite()?.id)
+            ?? sites[0]
+            ?? null;
+    }
+
+    /**
+     * Reload the posts of the selected site
+     */
+    async refresh() {
+        const refreshId = ++this.refreshId;
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-posts-view');
+
+        const site = this.getSite();
+        if (!site) {
+            contentEl.createDiv({ cls: 'ghosty-posty-muted', text: 'Configure a ghost site in the plugin settings to see its posts.' });
+            return;
+        }
+        this.siteId = site.id;
+
+        this.renderHeader(contentEl, site);
+        const listEl = contentEl.createDiv({ cls: 'ghosty-posty-muted', text: 'Loading posts...' });
+
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const [drafts, scheduled, published] = await Promise.all([
+            api.listPosts('status:draft', 'updated_at desc', LIST_LIMIT),
+            api.listPosts('status:scheduled', 'published_at asc', 'all'),
+            api.listPosts('status:published', 'published_at desc', LIST_LIMIT)
+        ]);
+        // The site was switched or the list refreshed again while loading
+        if (refreshId !== this.refreshId) {
+            return;
+        }
+
+        listEl.remove();
+        for (const result of [drafts, scheduled, published]) {
+            if (!result.success) {
+                contentEl.createDiv({ cls: 'ghosty-posty-conflict', text: `Failed to load posts: ${result.error}` });
+                return;
+            }
+        }
+
+        // Notes are matched to posts by the ghost_id recorded when publishing
+        const notes = new Map<string, TFile>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const ghostId = this.app.metadataCache.getFileCache(file)?.frontmatter?.ghost_id;
+            if (ghostId) {
+                notes.set(String(ghostId), file);
+            }
+        }
+
+        const groups: PostGroup[] = [
+            {
+                title: 'Drafts',
+                posts: drafts.success ? drafts.posts : [],
+                date: post => `Edited ${this.formatDate(post.updated_at)}`
+            },
+            {
+                title: 'Scheduled',
+                posts: scheduled.success ? scheduled.posts : [],
+                date: post => `Publishes ${this.formatDate(post.published_at)}`
+            },
+            {
+                title: 'Recently published',
+                posts: published.success ? published.posts : [],
+                date: post => `Published ${this.formatDate(post.published_at)}`
+            }
+        ];
+        for (const group of groups) {
+            this.renderGroup(contentEl, site, api, group, notes);
+        }
+    }
+
+    private renderHeader(contentEl: HTMLElement, site: GhostSite) {
+        const headerEl = contentEl.createDiv({ cls: 'ghosty-posty-posts-header' });
+
+        const sites = this.plugin.settings.sites.filter(isSiteConfigured);
+        if (sites.length > 1) {
+            const select = headerEl.createEl('select', { cls: 'dropdown' });
+            for (const option of sites) {
+                select.createEl('option', { text: option.name, value: option.id });
+            }
+            select.value = site.id;
+            select.addEventListener('change', () => {
+                this.siteId = select.value;
+                void this.refresh();
+            });
+        } else {
+            headerEl.createEl('strong', { text: site.name });
+        }
+
+        const refreshButton = headerEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Refresh' } });
+        setIcon(refreshButton, 'refresh-cw');
+        refreshButton.addEventListener('click', () => {
+            void this.refresh();
+        });
+    }
+
+    private renderGroup(contentEl: HTMLElement, site: GhostSite, api: GhostAPI, group: PostGroup, notes: Map<string, TFile>) {
+        const groupEl = contentEl.createDiv({ cls: 'ghosty-posty-posts-group' });
+        groupEl.createEl('h4', { text: `${group.title} (${group.posts.length})` });
+
+        if (group.posts.length === 0) {
+            groupEl.createDiv({ cls: 'ghosty-posty-muted', text: 'None' });
+            return;
+        }
+
+        for (const post of group.posts) {
+            const note = notes.get(post.id) ?? null;
+            const rowEl = groupEl.createDiv({ cls: 'ghosty-posty-posts-row' });
+
+            const infoEl = rowEl.createDiv({ cls: 'ghosty-posty-posts-info' });
+            const titleEl = infoEl.createEl('a', { text: post.title || '(untitled)', href: '#' });
+            titleEl.addEventListener('click', (event) => {
+                event.preventDefault();
+                if (note) {
+                    void this.app.workspace.getLeaf(false).openFile(note);
+                } else {
+                    this.openInAdmin(site, post);
+                }
+            });
+            infoEl.createDiv({
+                cls: 'ghosty-posty-muted',
+                text: note ? `${group.date(post)} · ${note.basename}` : `${group.date(post)} · not in the vault`
+            });
+
+            const actionsEl = rowEl.createDiv({ cls: 'ghosty-posty-posts-actions' });
+            this.addRowAction(actionsEl, 'external-link', 'Open in ghost admin', () => this.openInAdmin(site, post));
+            if (note) {
+                this.addRowAction(actionsEl, 'file-text', 'Open note', () => {
+                    void this.app.workspace.getLeaf(false).openFile(note);
+                });
+            }
+            if (post.status === 'scheduled') {
+                this.addRowAction(actionsEl, 'calendar-clock', 'Reschedule', () => this.reschedule(site, api, post, note));
+            }
+        }
+    }
+
+    private addRowAction(containerEl: HTMLElement, icon: string, label: string, onClick: () => void) {
+        const button = containerEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+        setIcon(button, icon);
+        button.addEventListener('click', onClick);
+    }
+
+    private openInAdmin(site: GhostSite, post: GhostPostData) {
+        window.open(`${site.ghostUrl.replace(/\/+$/, '')}/ghost/#/editor/post/${post.id}`);
+    }
+
+    /**
+     * Move a scheduled post to a new time, keeping the linked note in sync
+     */
+    private reschedule(site: GhostSite, api: GhostAPI, post: GhostPostData, note: TFile | null) {
+        new RescheduleModal(this.app, post.title, post.published_at ?? new Date().toISOString(), (publishedAt) => {
+            void (async () => {
+                const result = await api.reschedulePost(post.id, publishedAt, post.updated_at);
+                if (!result.success) {
+                    new Notice(`Failed to reschedule: ${result.error}`, 10000);
+                    return;
+                }
+
+                if (note) {
+                    await this.plugin.linkNoteToPost(note, result.post, site, 'post');
+                    // The publish dialog schedules from publish_date (or date without it), so it must match the new time
+                    await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+                        if (frontmatter.publish_date) {
+                            frontmatter.publish_date = publishedAt;
+                        } else if (frontmatter.date) {
+                            frontmatter.date = publishedAt;
+                        }
+                    });
+                }
+                new Notice(`"${post.title}" now publishes ${this.formatDate(publishedAt)}`);
+                await this.refresh();
+            })();
+        }).open();
+    }
+
+    private formatDate(isoDate: string | null): string {
+        return isoDate ? new Date(isoDate).toLocaleString() : 'unknown';
+    }
+}
@@ -0,0 +1,157 @@
+import { App, Notice, Platform, TFile, normalizePath } from 'obsidian';
+import { GhostPostResponse, GhostSite, HistoryLogFormat, PostType, PublishHistoryEntry } from './types';
+
+type GhostPostData = GhostPostResponse['posts'][0];
+
+// Older entries are dropped from plugin data; the vault log keeps everything
+const MAX_ENTRIES = 1000;
+
+const DEVICE_NAME_KEY = 'ghosty-posty-device-name';
+
+/**
+ * Escape a value for a markdown table cell
+ */
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format an entry as a row of the markdown log's table
+ */
+function toMarkdownRow(entry: PublishHistoryEntry): string {
+    const cells = [
+        entry.timestamp,
+        entry.device,
+        `[[${entry.notePath}]]`,
+        entry.siteName,
+        entry.error ? 'failed' : entry.action === 'create' ? 'created' : 'updated',
+        entry.status ?? '',
+        entry.url ? `[${entry.url}](${entry.url})` : '',
+        String(entry.imageCount),
+        entry.error ?? ''
+    ];
+    return `| ${cells.map(escapeCell).join(' | ')} |\n`;
+}
+
+const MARKDOWN_HEADER = '| Time | Device | Note | Site | Result | Status | URL | Images | Error |\n' +
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |\n';
+
+/**
+ * Records every publish attempt in plugin data and, optionally, in an append-only log file in the vault
+ */
+export class PublishHistory {
+    private app: App;
+    private entries: PublishHistoryEntry[];
+    private persist: () => Promise<void>;
+    private getLogOptions: () => { format: HistoryLogFormat; path: string };
+
+    constructor(
+        app: App,
+        entries: PublishHistoryEntry[],
+        persist: () => Promise<void>,
+        getLogOptions: () => { format: HistoryLogFormat; path: string }
+    ) {
+        this.app = app;
+        this.entries = entries;
+        this.persist = persist;
+        this.getLogOptions = getLogOptions;
+    }
+
+    /**
+     * Name of this device, kept in local storage so it isn't synced with plugin data
+     */
+    getDeviceName(): string {
+        const saved = this.app.loadLocalStorage(DEVICE_NAME_KEY) as string | null;
+        return saved || (Platform.isMobile ? 'Mobile' : 'Desktop');
+    }
+
+    setDeviceName(name: string): void {
+        this.app.saveLocalStorage(DEVICE_NAME_KEY, name || null);
+    }
+
+    /**
+     * All recorded attempts, newest first
+     */
+    getEntries(): PublishHistoryEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Record the result of creating or updating a post
+     * site is null when the note's site couldn't be resolved
+     */
+    async recordAttempt(
+        notePath: string,
+        site: GhostSite | null,
+        type: PostType,
+        existingPost: GhostPostData | null,
+        imageCount: number,
+        outcome: { post: GhostPostData } | { error: string }
+    ): Promise<void> {
+        const post = 'post' in outcome ? outcome.post : existingPost;
+        await this.record({
+            notePath,
+            siteId: site?.id ?? '',
+            siteName: site?.name ?? 'Unknown site',
+            type,
+            action: existingPost ? 'update' : 'create',
+            ...(post && { postId: post.id, url: post.url }),
+            ...('post' in outcome ? { status: outcome.post.status } : { error: outcome.error }),
+            imageCount
+        });
+    }
+
+    /**
+     * Record a publish attempt; the timestamp and device are filled in
+     */
+    private async record(entry: Omit<PublishHistoryEntry, 'timestamp' | 'device'>): Promise<void> {
+        const full: PublishHistoryEntry = {
+            timestamp: new Date().toISOString(),
+            device: this.getDeviceName(),
+            ...entry
+        };
+
+        this.entries.unshift(full);
+        this.entries.splice(MAX_ENTRIES);
+        await this.persist();
+
+        // The log is a convenience, so a write failure never fails the publish
+        try {
+            await this.appendToLog(full);
+        } catch (error) {
+            new Notice(`Failed to write the publish log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Forget all recorded attempts; the vault log is left alone
+     */
+    async clear(): Promise<void> {
+        this.entries.splice(0);
+        await this.persist();
+    }
+
+    private async appendToLog(entry: PublishHistoryEntry): Promise<void> {
+        const { format, path } = this.getLogOptions();
+        if (format === 'none' || !path) {
+            return;
+        }
+
+        // JSON Lines, so entries can be appended without rewriting the file
+        const filePath = normalizePath(`${path}.${format === 'json' ? 'jsonl' : 'md'}`);
+        const line = format === 'json' ? `${JSON.stringify(entry)}\n` : toMarkdownRow(entry);
+
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (file instanceof TFile) {
+            await this.app.vault.append(file, line);
+            return;
+        }
+
+        // Create the parent folder and file on the first entry
+        const folder = filePath.substring(0, filePath.lastIndexOf('/'));
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.create(filePath, format === 'json' ? line : `${MARKDOWN_HEADER}${line}`);
+    }
+}
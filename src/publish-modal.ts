@@ -1,29 +1,145 @@
-import { App, Modal, Setting, Notice, Vault, TFile, MetadataCache } from 'obsidian';
-import { PostMetadata, GhostPostPayload, PostStatus, ImageReference } from './types';
-import { GhostAPI } from './ghost-api';
-import { ConversionResult, replaceImageUrls } from './markdown-converter';
+import { App, Modal, Setting, Notice, Vault, TFile, MetadataCache, sanitizeHTMLToDom } from 'obsidian';
+import { PostMetadata, PostStatus, PostType, PostFormat, ImageReference, GhostPostResponse, GhostSite, ImageProcessingSettings, EmailSegment, GhostNewsletter, PostVisibility, GhostTier, GhostUser, SeoField, SeoFields, GhostSiteTag, GhostTag } from './types';
+import { GhostAPI, EmailOptions } from './ghost-api';
+import { ImageCache } from './image-cache';
+import { ImageUploader, ImageUploadState, resolveVaultImage } from './image-uploader';
+import { ConversionResult, removeImages } from './markdown-converter';
+import { UPLOAD_CONCURRENCY, runWithConcurrency } from './upload-queue';
+import { TagSuggest } from './tag-suggest';
+import { applyUploadedImages, buildPostContent, buildPostPayload, collectPostImages, resolveAuthors, resolveTags, resolveTiers } from './post-payload';
+import { exportNoteAsHtml } from './html-export';
+import { PublishHistory } from './publish-history';
+import { toLocalDatetimeString } from './dates';
+
+type UploadFailureAction = 'retry' | 'skip' | 'cancel';
+
+type ModalTab = 'details' | 'preview';
+
+interface PromptChoice<T extends string> {
+    value: T;
+    text: string;
+    cls?: string;
+}
+
+interface SeoFieldInput {
+    field: SeoField;
+    name: string;
+    // Recommended maximum length, shown as a counter
+    limit?: number;
+    multiline?: boolean;
+    placeholder?: string;
+}
+
+// Limits follow the recommendations in ghost admin; the excerpt limit is enforced by ghost
+const SEO_FIELD_INPUTS: SeoFieldInput[] = [
+    { field: 'custom_excerpt', name: 'Excerpt', limit: 300, multiline: true },
+    { field: 'meta_title', name: 'Meta title', limit: 60 },
+    { field: 'meta_description', name: 'Meta description', limit: 145, multiline: true },
+    { field: 'canonical_url', name: 'Canonical URL', placeholder: 'https://' },
+    { field: 'og_title', name: 'Facebook title', limit: 60 },
+    { field: 'og_description', name: 'Facebook description', limit: 145, multiline: true },
+    { field: 'og_image', name: 'Facebook image', placeholder: 'Vault path, [[image.png]] or URL' },
+    { field: 'twitter_title', name: 'X title', limit: 60 },
+    { field: 'twitter_description', name: 'X description', limit: 145, multiline: true },
+    { field: 'twitter_image', name: 'X image', placeholder: 'Vault path, [[image.png]] or URL' }
+];
+
+// Ghost's email_segment values for the preset segments
+const EMAIL_SEGMENT_FILTERS: Record<Exclude<EmailSegment, 'custom'>, string> = {
+    all: 'all',
+    free: 'status:free',
+    paid: 'status:-free'
+};
+
+interface ImageUploadTask {
+    image: ImageReference;
+    state: ImageUploadState;
+    message: string;
+    rowEl: HTMLElement | null;
+}
 
 export class PublishModal extends Modal {
     private metadata: PostMetadata;
     private conversionResult: ConversionResult;
-    private ghostUrl: string;
-    private apiKey: string;
+    // The converted HTML with changed and removed content highlighted
+    private previewHtml: string;
+    private sites: GhostSite[];
+    private site: GhostSite;
+    private postFormat: PostFormat;
+    private imageProcessing: ImageProcessingSettings;
+    private imageCache: ImageCache;
+    private history: PublishHistory;
+    private exportFolder: string;
     private vault: Vault;
     private metadataCache: MetadataCache;
     private sourceFile: TFile;
-    private onSuccess: (postUrl: string) => void;
+    private onSuccess: (post: GhostPostResponse['posts'][0], site: GhostSite, type: PostType) => void;
+
+    // The post the note is linked to lives on the initially selected site, as the initial type
+    private linkedPost: GhostPostResponse['posts'][0] | null;
+    private linkedSiteId: string;
+    private linkedType: PostType;
+    private existingPost: GhostPostResponse['posts'][0] | null;
 
     // Editable form values
+    private editableType: PostType;
     private editableTitle: string;
     private editableStatus: PostStatus;
     private editableTags: string;
     private editableFeatured: boolean = false;
     private editableScheduledDate: string = '';
+    // The publish time the picker was filled from, sent as is unless the picker is changed
+    private knownPublishedAt: string | undefined;
+    private editableNewsletter: string = '';
+    private editableSegment: EmailSegment;
+    private editableEmailFilter: string;
+    private editableEmailOnly: boolean;
+    private editableVisibility: PostVisibility;
+    private editableTierIds: Set<string> = new Set();
+    // User IDs, primary author first
+    private editableAuthorIds: string[] = [];
+    private editableSeo: SeoFields;
+    // Export to the vault instead of publishing
+    private dryRun: boolean = false;
+
+    // The site's newsletters; null while loading
+    private newsletters: GhostNewsletter[] | null = null;
+    private newsletterWarning: string | null = null;
+
+    // The site's tags, including internal ones; null while loading
+    private ghostTags: GhostSiteTag[] | null = null;
+
+    // The site's staff users; null while loading
+    private users: GhostUser[] | null = null;
+    private unknownAuthors: string[] = [];
+    private usersError: string | null = null;
+
+    // The site's paid tiers; null until visibility is set to specific tiers
+    private tiers: GhostTier[] | null = null;
+    private tiersWarning: string | null = null;
+
+    // Preview tab state
+    private showSource: boolean = false;
+
+    // Uploads images for the current publish and tracks the bytes saved
+    private uploader: ImageUploader | null = null;
 
     // UI elements
     private publishButton: HTMLButtonElement | null = null;
+    private modeSection: HTMLElement | null = null;
+    private tabButtons: Partial<Record<ModalTab, HTMLButtonElement>> = {};
+    private detailsTab: HTMLElement | null = null;
+    private previewTab: HTMLElement | null = null;
     private statusEl: HTMLElement | null = null;
+    private uploadListEl: HTMLElement | null = null;
+    private promptEl: HTMLElement | null = null;
+    private cancelPrompt: (() => void) | null = null;
     private scheduleDateContainer: HTMLElement | null = null;
+    private newsletterSection: HTMLElement | null = null;
+    private visibilitySection: HTMLElement | null = null;
+    private authorsSection: HTMLElement | null = null;
+    // Fields that only apply to posts, hidden when publishing a page
+    private postOnlyFields: HTMLElement[] = [];
 
     constructor(
         app: App,
@@ -32,9 +148,16 @@ export class PublishModal extends Modal {
         sourceFile: TFile,
         metadata: PostMetadata,
         conversionResult: ConversionResult,
-        ghostUrl: string,
-        apiKey: string,
-        onSuccess: (postUrl: string) => void
+        previewHtml: string,
+        sites: GhostSite[],
+        site: GhostSite,
+        postFormat: PostFormat,
+        imageProcessing: ImageProcessingSettings,
+        imageCache: ImageCache,
+        history: PublishHistory,
+        exportFolder: string,
+        existingPost: GhostPostResponse['posts'][0] | null,
+        onSuccess: (post: GhostPostResponse['posts'][0], site: GhostSite, type: PostType) => void
     ) {
         super(app);
         this.vault = vault;
@@ -42,14 +165,32 @@ export class PublishModal extends Modal {
         this.sourceFile = sourceFile;
         this.metadata = metadata;
         this.conversionResult = conversionResult;
-        this.ghostUrl = ghostUrl;
-        this.apiKey = apiKey;
+        this.previewHtml = previewHtml;
+        this.sites = sites;
+        this.site = site;
+        this.postFormat = postFormat;
+        this.imageProcessing = imageProcessing;
+        this.imageCache = imageCache;
+        this.history = history;
+        this.exportFolder = exportFolder;
+        this.linkedPost = existingPost;
+        this.linkedSiteId = site.id;
+        this.linkedType = metadata.type;
+        this.existingPost = existingPost;
         this.onSuccess = onSuccess;
 
         // Initialize editable values
+        this.editableType = metadata.type;
         this.editableTitle = metadata.title;
         this.editableStatus = metadata.status;
+        // There's no frontmatter key for featured, so an update keeps the post's current value
+        this.editableFeatured = existingPost?.featured ?? false;
         this.editableTags = metadata.tags.join(', ');
+        this.editableSegment = metadata.emailSegment;
+        this.editableEmailFilter = metadata.emailFilter ?? '';
+        this.editableEmailOnly = metadata.emailOnly;
+        this.editableVisibility = metadata.visibility;
+        this.editableSeo = { ...metadata.seo };
     }
 
     onOpen() {
@@ -59,8 +200,54 @@ export class PublishModal extends Modal {
 
         contentEl.createEl('h2', { text: 'Publish to ghost' });
 
+        // Details and preview tabs
+        const tabBar = contentEl.createDiv({ cls: 'ghosty-posty-tabs' });
+        const tabs: { tab: ModalTab; text: string }[] = [
+            { tab: 'details', text: 'Details' },
+            { tab: 'preview', text: 'Preview' }
+        ];
+        for (const { tab, text } of tabs) {
+            const button = tabBar.createEl('button', { text });
+            button.addEventListener('click', () => this.selectTab(tab));
+            this.tabButtons[tab] = button;
+        }
+        const detailsTab = contentEl.createDiv();
+        this.detailsTab = detailsTab;
+        this.previewTab = contentEl.createDiv();
+
+        // Create or update mode
+        this.modeSection = detailsTab.createDiv({ cls: 'ghosty-posty-mode' });
+        this.renderModeSection();
+
         // Editable fields section
-        const formSection = contentEl.createDiv({ cls: 'ghosty-posty-form' });
+        const formSection = detailsTab.createDiv({ cls: 'ghosty-posty-form' });
+
+        // Site picker (only when there is more than one site)
+        if (this.sites.length > 1) {
+            new Setting(formSection)
+                .setName('Site')
+                .addDropdown(dropdown => {
+                    for (const site of this.sites) {
+                        dropdown.addOption(site.id, site.name);
+                    }
+                    dropdown
+                        .setValue(this.site.id)
+                        .onChange(value => {
+                            this.selectSite(value);
+                        });
+                });
+        }
+
+        // Post or page
+        new Setting(formSection)
+            .setName('Type')
+            .addDropdown(dropdown => dropdown
+                .addOption('post', 'Post')
+                .addOption('page', 'Page')
+                .setValue(this.editableType)
+                .onChange(value => {
+                    this.selectType(value as PostType);
+                }));
 
         // Title input
         new Setting(formSection)
@@ -91,10 +278,16 @@ export class PublishModal extends Modal {
             .setDesc('Date and time to publish (your local timezone)')
             .addText(text => {
                 text.inputEl.type = 'datetime-local';
-                // Set default to the next hour today (e.g. 2:30pm -> 3:00pm)
-                const nextHour = new Date();
-                nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
-                const defaultDate = this.toLocalDatetimeString(nextHour);
+                // Keep the note's or the linked post's publish time, else the next hour (e.g. 2:30pm -> 3:00pm)
+                const knownDate = this.metadata.publishedAt ?? this.existingPost?.published_at ?? undefined;
+                let scheduled = knownDate ? new Date(knownDate) : null;
+                if (scheduled && !isNaN(scheduled.getTime())) {
+                    this.knownPublishedAt = knownDate;
+                } else {
+                    scheduled = new Date();
+                    scheduled.setHours(scheduled.getHours() + 1, 0, 0, 0);
+                }
+                const defaultDate = toLocalDatetimeString(scheduled);
                 text.setValue(defaultDate);
                 this.editableScheduledDate = defaultDate;
                 text.onChange(value => {
@@ -106,21 +299,64 @@ export class PublishModal extends Modal {
         // Featured toggle
         new Setting(formSection)
             .setName('Featured')
-            .setDesc('Mark this post as featured')
+            .setDesc('Mark as featured')
             .addToggle(toggle => toggle
                 .setValue(this.editableFeatured)
                 .onChange(value => {
                     this.editableFeatured = value;
                 }));
 
-        // Tags input
+        // Tags input, suggesting the site's existing tags
         new Setting(formSection)
             .setName('Tags')
             .setDesc('Comma-separated list of tags')
-            .addText(text => text
-                .setValue(this.editableTags)
+            .addText(text => {
+                text
+                    .setValue(this.editableTags)
+                    .onChange(value => {
+                        this.editableTags = value;
+                    });
+                new TagSuggest(this.app, text.inputEl, () => this.ghostTags ?? []);
+                return text;
+            });
+        void this.loadTags();
+
+        // Authors
+        this.authorsSection = formSection.createDiv({ cls: 'ghosty-posty-authors' });
+        void this.loadUsers();
+
+        // Visibility and tiers
+        this.visibilitySection = formSection.createDiv({ cls: 'ghosty-posty-visibility' });
+        this.renderVisibilitySection();
+        if (this.editableVisibility === 'tiers') {
+            void this.loadTiers();
+        }
+
+        // Newsletter options
+        this.newsletterSection = formSection.createDiv({ cls: 'ghosty-posty-newsletter' });
+        this.postOnlyFields.push(this.newsletterSection);
+        void this.loadNewsletters();
+
+        // Excerpt, search and social card fields, collapsed unless the note sets some
+        const seoSection = formSection.createEl('details', { cls: 'ghosty-posty-seo' });
+        seoSection.open = Object.keys(this.editableSeo).length > 0;
+        seoSection.createEl('summary', { text: 'SEO & social' });
+        seoSection.createDiv({ cls: 'ghosty-posty-field', text: 'Empty fields keep the value already set in ghost' });
+        for (const input of SEO_FIELD_INPUTS) {
+            this.renderSeoField(seoSection, input);
+        }
+
+        // Dry run
+        new Setting(formSection)
+            .setName('Dry run')
+            .setDesc('Export the post and its images to the vault instead of publishing, without contacting ghost')
+            .addToggle(toggle => toggle
+                .setValue(this.dryRun)
                 .onChange(value => {
-                    this.editableTags = value;
+                    this.dryRun = value;
+                    if (this.publishButton) {
+                        this.publishButton.textContent = this.getPublishButtonText();
+                    }
                 }));
 
         // Image info section
@@ -128,7 +364,7 @@ export class PublishModal extends Modal {
             (this.conversionResult.featuredImage ? 1 : 0);
 
         if (totalImages > 0 || this.conversionResult.featuredImage) {
-            const imageSection = contentEl.createDiv({ cls: 'ghosty-posty-images' });
+            const imageSection = detailsTab.createDiv({ cls: 'ghosty-posty-images' });
             imageSection.createEl('h3', { text: 'Images' });
 
             if (this.conversionResult.featuredImage) {
@@ -142,16 +378,34 @@ export class PublishModal extends Modal {
                 countDiv.createEl('strong', { text: 'Content images: ' });
                 countDiv.createEl('span', { text: `${this.conversionResult.images.length}` });
             }
+
+            const optimizeDiv = imageSection.createDiv({ cls: 'ghosty-posty-field' });
+            optimizeDiv.createEl('strong', { text: 'Optimization: ' });
+            optimizeDiv.createEl('span', { text: this.describeImageProcessing() });
+        }
+
+        // Conversion warnings
+        if (this.conversionResult.warnings.length > 0) {
+            const warningsSection = detailsTab.createDiv({ cls: 'ghosty-posty-warnings' });
+            warningsSection.createEl('h3', { text: 'Warnings' });
+            const warningsList = warningsSection.createEl('ul');
+            for (const warning of this.conversionResult.warnings) {
+                warningsList.createEl('li', { text: warning });
+            }
         }
 
         // Scheduled date (if applicable from metadata)
         if (this.metadata.status === 'scheduled' && this.metadata.publishedAt) {
-            const scheduleSection = contentEl.createDiv({ cls: 'ghosty-posty-schedule' });
+            const scheduleSection = detailsTab.createDiv({ cls: 'ghosty-posty-schedule' });
             const dateDiv = scheduleSection.createDiv({ cls: 'ghosty-posty-field' });
             dateDiv.createEl('strong', { text: 'Scheduled for: ' });
             dateDiv.createEl('span', { text: this.formatDate(this.metadata.publishedAt) });
         }
 
+        // Per-image upload progress, and choices asked for while publishing
+        this.uploadListEl = contentEl.createEl('ul', { cls: 'ghosty-posty-upload-list' });
+        this.promptEl = contentEl.createDiv({ cls: 'ghosty-posty-prompt' });
+
         // Status/progress area
         this.statusEl = contentEl.createDiv({ cls: 'ghosty-posty-status' });
 
@@ -162,12 +416,696 @@ export class PublishModal extends Modal {
         cancelButton.addEventListener('click', () => this.close());
 
         this.publishButton = buttonContainer.createEl('button', {
-            text: 'Publish',
+            text: this.getPublishButtonText(),
             cls: 'mod-cta'
         });
         this.publishButton.addEventListener('click', () => {
             void this.publish();
         });
+
+        this.toggleTypeFields();
+        this.selectTab('details');
+    }
+
+    /**
+     * Switch between the details form and the preview
+     */
+    private selectTab(tab: ModalTab) {
+        for (const [name, button] of Object.entries(this.tabButtons)) {
+            button.toggleClass('is-active', name === tab);
+        }
+        this.detailsTab?.toggle(tab === 'details');
+        this.previewTab?.toggle(tab === 'preview');
+
+        // Rendered on every switch so the preview shows the current title
+        if (tab === 'preview') {
+            this.renderPreview();
+        }
+    }
+
+    /**
+     * Render the converted post with images from the vault, or the HTML sent to ghost
+     * Content the conversion changed or removed is highlighted, with details on hover
+     */
+    private renderPreview() {
+        const section = this.previewTab;
+        if (!section) {
+            return;
+        }
+        section.empty();
+
+        new Setting(section)
+            .setName('View source')
+            .setDesc('Show the HTML that is sent to ghost')
+            .addToggle(toggle => toggle
+                .setValue(this.showSource)
+                .onChange(value => {
+                    this.showSource = value;
+                    this.renderPreview();
+                }));
+
+        if (this.showSource) {
+            section.createEl('pre', { cls: 'ghosty-posty-source' })
+                .createEl('code', { text: this.conversionResult.html });
+            return;
+        }
+
+        section.createDiv({
+            cls: 'ghosty-posty-field ghosty-posty-muted',
+            text: 'Highlighted content is changed or removed when published. Hover over it for details.'
+        });
+
+        const previewEl = section.createDiv({ cls: 'ghosty-posty-preview markdown-rendered' });
+        previewEl.createEl('h1', { text: this.editableTitle });
+
+        // The first-line image becomes the featured image instead of part of the content
+        const featuredImage = this.conversionResult.featuredImage;
+        if (featuredImage) {
+            const figure = previewEl.createEl('figure', { cls: 'ghosty-posty-featured-image' });
+            const img = figure.createEl('img');
+            this.setPreviewImage(img, featuredImage.path);
+            figure.createEl('figcaption', {
+                cls: 'ghosty-posty-change',
+                text: 'Featured image, moved out of the content'
+            });
+        }
+
+        const content = sanitizeHTMLToDom(this.previewHtml);
+        content.querySelectorAll('img').forEach(img => {
+            const src = img.getAttribute('src') ?? '';
+            if (!/^(https?:|data:)/.test(src)) {
+                let path = src;
+                try {
+                    path = decodeURI(src);
+                } catch {
+                    // Keep the encoded path
+                }
+                this.setPreviewImage(img, path);
+            }
+        });
+        previewEl.appendChild(content);
+    }
+
+    /**
+     * Show a vault image in the preview, highlighting images that can't be found
+     */
+    private setPreviewImage(img: HTMLImageElement, path: string) {
+        const file = resolveVaultImage(this.vault, this.metadataCache, this.sourceFile, path);
+        if (file) {
+            img.src = this.vault.getResourcePath(file);
+        } else {
+            img.addClass('ghosty-posty-change', 'is-dropped');
+            img.alt = path;
+            img.title = `"${path}" was not found in the vault and can't be uploaded`;
+        }
+    }
+
+    /**
+     * Show whether publishing will create a new post or update the linked one
+     */
+    private renderModeSection() {
+        if (!this.modeSection) {
+            return;
+        }
+        this.modeSection.empty();
+
+        const modeDiv = this.modeSection.createDiv({ cls: 'ghosty-posty-field' });
+        if (this.existingPost) {
+            modeDiv.createEl('strong', { text: `Updates existing ${this.editableType}: ` });
+            modeDiv.createEl('span', { text: this.existingPost.title });
+
+            // Warn early when the post has changed in ghost since the last sync
+            if (this.hasRemoteChanges()) {
+                const warningDiv = this.modeSection.createDiv({ cls: 'ghosty-posty-field ghosty-posty-conflict' });
+                warningDiv.setText(`This ${this.editableType} was edited in ghost on ${this.formatDate(this.existingPost.updated_at)}, after it was last published from this note.`);
+            }
+        } else {
+            modeDiv.createEl('strong', { text: `Creates a new ${this.editableType}` });
+        }
+
+        if (this.sites.length > 1) {
+            const siteDiv = this.modeSection.createDiv({ cls: 'ghosty-posty-field' });
+            siteDiv.createEl('strong', { text: 'Site: ' });
+            siteDiv.createEl('span', { text: this.site.ghostUrl });
+        }
+    }
+
+    /**
+     * Switch the target site; the linked post only applies to the site it was published to
+     */
+    private selectSite(siteId: string) {
+        const site = this.sites.find(s => s.id === siteId);
+        if (!site) {
+            return;
+        }
+        this.site = site;
+        this.updateExistingPost();
+        void this.loadNewsletters();
+        void this.loadUsers();
+        void this.loadTags();
+
+        // Tiers belong to a site, so load them again
+        this.tiers = null;
+        this.editableTierIds.clear();
+        this.renderVisibilitySection();
+        if (this.editableVisibility === 'tiers') {
+            void this.loadTiers();
+        }
+    }
+
+    /**
+     * Switch between post and page; the linked post only applies to the type it was published as
+     */
+    private selectType(type: PostType) {
+        this.editableType = type;
+        this.updateExistingPost();
+        this.toggleTypeFields();
+    }
+
+    private updateExistingPost() {
+        this.existingPost = this.site.id === this.linkedSiteId && this.editableType === this.linkedType ? this.linkedPost : null;
+        this.renderModeSection();
+        this.renderNewsletterSection();
+        if (this.publishButton) {
+            this.publishButton.textContent = this.getPublishButtonText();
+        }
+    }
+
+    /**
+     * Load the selected site's newsletters and preselect the one named in frontmatter
+     */
+    private async loadNewsletters() {
+        const site = this.site;
+        this.newsletters = null;
+        this.newsletterWarning = null;
+        this.renderNewsletterSection();
+
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const result = await api.getNewsletters();
+
+        // The site was switched while loading
+        if (this.site !== site) {
+            return;
+        }
+
+        if (result.success) {
+            this.newsletters = result.newsletters;
+            const preset = this.metadata.newsletter?.toLowerCase();
+            const match = preset
+                ? result.newsletters.find(n => n.slug.toLowerCase() === preset || n.name.toLowerCase() === preset)
+                : undefined;
+            this.editableNewsletter = match?.slug ?? '';
+            if (preset && !match) {
+                this.newsletterWarning = `Newsletter "${this.metadata.newsletter}" was not found on this site`;
+            }
+        } else {
+            this.newsletters = [];
+            this.newsletterWarning = `Could not load newsletters: ${result.error}`;
+        }
+        this.renderNewsletterSection();
+    }
+
+    /**
+     * Render one SEO field, with a character counter when it has a recommended length
+     */
+    private renderSeoField(containerEl: HTMLElement, input: SeoFieldInput) {
+        const setting = new Setting(containerEl).setName(input.name);
+        const counterEl = input.limit ? setting.descEl.createSpan({ cls: 'ghosty-posty-counter' }) : null;
+        const updateCounter = (value: string) => {
+            if (counterEl && input.limit) {
+                counterEl.setText(`${value.length}/${input.limit}`);
+                counterEl.toggleClass('is-over', value.length > input.limit);
+            }
+        };
+
+        const onChange = (value: string) => {
+            const trimmed = value.trim();
+            if (trimmed) {
+                this.editableSeo[input.field] = trimmed;
+            } else {
+                delete this.editableSeo[input.field];
+            }
+            updateCounter(trimmed);
+        };
+
+        const value = this.editableSeo[input.field] ?? '';
+        if (input.multiline) {
+            setting.addTextArea(text => text
+                .setValue(value)
+                .onChange(onChange));
+        } else {
+            setting.addText(text => text
+                .setPlaceholder(input.placeholder ?? '')
+                .setValue(value)
+                .onChange(onChange));
+        }
+        updateCounter(value);
+    }
+
+    /**
+     * Load the selected site's tags for suggestions and new-tag warnings
+     */
+    private async loadTags() {
+        const site = this.site;
+        this.ghostTags = null;
+
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const result = await api.getTags();
+
+        // The site was switched while loading
+        if (this.site !== site) {
+            return;
+        }
+
+        // Without the tag list, tags are still published but can't be checked
+        this.ghostTags = result.success ? result.tags : null;
+    }
+
+    /**
+     * Parse the tags field, referring to existing ghost tags by slug
+     */
+    private getTags(): { tags: GhostTag[]; newTags: string[] } {
+        const values = this.editableTags
+            .split(',')
+            .map(t => t.trim())
+            .filter(t => t.length > 0);
+
+        return resolveTags(this.ghostTags, values);
+    }
+
+    /**
+     * Load the selected site's staff users and resolve the authors from frontmatter
+     */
+    private async loadUsers() {
+        const site = this.site;
+        this.users = null;
+        this.usersError = null;
+        this.unknownAuthors = [];
+        this.editableAuthorIds = [];
+        this.renderAuthorsSection();
+
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const result = await api.getUsers();
+
+        // The site was switched while loading
+        if (this.site !== site) {
+            return;
+        }
+
+        if (result.success) {
+            this.users = result.users;
+            const authors = resolveAuthors(result.users, this.metadata.authors);
+            this.editableAuthorIds = authors.ids;
+            this.unknownAuthors = authors.unknown;
+        } else {
+            this.users = [];
+            this.usersError = `Could not load staff users: ${result.error}`;
+        }
+        this.renderAuthorsSection();
+    }
+
+    private renderAuthorsSection() {
+        const section = this.authorsSection;
+        if (!section) {
+            return;
+        }
+        section.empty();
+
+        if (this.users === null) {
+            section.createDiv({ cls: 'ghosty-posty-field', text: 'Loading authors...' });
+            return;
+        }
+
+        if (this.usersError) {
+            section.createDiv({ cls: 'ghosty-posty-field ghosty-posty-conflict', text: this.usersError });
+        }
+        if (this.unknownAuthors.length > 0) {
+            section.createDiv({ cls: 'ghosty-posty-field ghosty-posty-conflict', text: this.describeUnknownAuthors() });
+        }
+
+        const users = this.users;
+        this.editableAuthorIds.forEach((id, index) => {
+            const user = users.find(u => u.id === id);
+            if (!user) {
+                return;
+            }
+            const setting = new Setting(section)
+                .setName(user.name)
+                .setDesc(index === 0 ? 'Primary author' : user.email);
+            if (index > 0) {
+                setting.addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Make primary author')
+                    .onClick(() => {
+                        this.editableAuthorIds = [id, ...this.editableAuthorIds.filter(other => other !== id)];
+                        this.renderAuthorsSection();
+                    }));
+            }
+            setting.addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip('Remove author')
+                .onClick(() => {
+                    this.editableAuthorIds = this.editableAuthorIds.filter(other => other !== id);
+                    this.renderAuthorsSection();
+                }));
+        });
+
+        const available = users.filter(user => !this.editableAuthorIds.includes(user.id));
+        if (available.length === 0) {
+            return;
+        }
+
+        new Setting(section)
+            .setName(this.editableAuthorIds.length === 0 ? 'Authors' : 'Add author')
+            .setDesc(this.editableAuthorIds.length === 0 ? 'Defaults to the owner of the API key\'s integration' : '')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Choose a staff user');
+                for (const user of available) {
+                    dropdown.addOption(user.id, user.name);
+                }
+                dropdown.onChange(value => {
+                    if (value) {
+                        this.editableAuthorIds.push(value);
+                        this.renderAuthorsSection();
+                    }
+                });
+            });
+    }
+
+    private describeUnknownAuthors(): string {
+        return `Unknown author${this.unknownAuthors.length === 1 ? '' : 's'} in frontmatter: ${this.unknownAuthors.join(', ')}. Use the email or slug of a staff user on this site.`;
+    }
+
+    /**
+     * Load the selected site's paid tiers and preselect the ones named in frontmatter
+     */
+    private async loadTiers() {
+        const site = this.site;
+        this.tiersWarning = null;
+
+        const api = new GhostAPI(site.ghostUrl, site.apiKey);
+        const result = await api.getTiers();
+
+        // The site was switched while loading
+        if (this.site !== site) {
+            return;
+        }
+
+        if (result.success) {
+            this.tiers = result.tiers;
+            const { ids, missing } = resolveTiers(result.tiers, this.metadata.tiers);
+            ids.forEach(id => this.editableTierIds.add(id));
+            if (missing.length > 0) {
+                this.tiersWarning = `Tiers not found on this site: ${missing.join(', ')}`;
+            }
+        } else {
+            this.tiers = [];
+            this.tiersWarning = `Could not load tiers: ${result.error}`;
+        }
+        this.renderVisibilitySection();
+    }
+
+    private renderVisibilitySection() {
+        const section = this.visibilitySection;
+        if (!section) {
+            return;
+        }
+        section.empty();
+
+        // Explain what the paywall marker does with the chosen visibility
+        let description = '';
+        if (this.conversionResult.hasPaywall) {
+            description = this.editableVisibility === 'public'
+                ? 'The paywall marker in this note only applies when access is limited to members'
+                : 'Content above the paywall marker is a free preview';
+        }
+
+        new Setting(section)
+            .setName('Visibility')
+            .setDesc(description)
+            .addDropdown(dropdown => dropdown
+                .addOption('public', 'Public')
+                .addOption('members', 'Members only')
+                .addOption('paid', 'Paid members')
+                .addOption('tiers', 'Specific tiers')
+                .setValue(this.editableVisibility)
+                .onChange(value => {
+                    this.editableVisibility = value as PostVisibility;
+                    this.renderVisibilitySection();
+                    if (this.editableVisibility === 'tiers' && this.tiers === null) {
+                        void this.loadTiers();
+                    }
+                }));
+
+        if (this.editableVisibility !== 'tiers') {
+            return;
+        }
+
+        if (this.tiers === null) {
+            section.createDiv({ cls: 'ghosty-posty-field', text: 'Loading tiers...' });
+            return;
+        }
+
+        if (this.tiersWarning) {
+            section.createDiv({ cls: 'ghosty-posty-field ghosty-posty-conflict', text: this.tiersWarning });
+        }
+
+        for (const tier of this.tiers) {
+            new Setting(section)
+                .setName(tier.name)
+                .addToggle(toggle => toggle
+                    .setValue(this.editableTierIds.has(tier.id))
+                    .onChange(value => {
+                        if (value) {
+                            this.editableTierIds.add(tier.id);
+                        } else {
+                            this.editableTierIds.delete(tier.id);
+                        }
+                    }));
+        }
+    }
+
+    /**
+     * Ghost only emails a post the first time it's published
+     */
+    private canSendNewsletter(): boolean {
+        return this.editableType === 'post' && !(this.existingPost && ['published', 'sent'].includes(this.existingPost.status));
+    }
+
+    private renderNewsletterSection() {
+        const section = this.newsletterSection;
+        if (!section) {
+            return;
+        }
+        section.empty();
+
+        if (this.editableType === 'post' && !this.canSendNewsletter()) {
+            section.createDiv({
+                cls: 'ghosty-posty-field',
+                text: 'This post is already published, so it won\'t be emailed again'
+            });
+            return;
+        }
+
+        if (this.newsletters === null) {
+            section.createDiv({ cls: 'ghosty-posty-field', text: 'Loading newsletters...' });
+            return;
+        }
+
+        if (this.newsletterWarning) {
+            section.createDiv({ cls: 'ghosty-posty-field ghosty-posty-conflict', text: this.newsletterWarning });
+        }
+
+        if (this.newsletters.length === 0) {
+            return;
+        }
+
+        new Setting(section)
+            .setName('Newsletter')
+            .setDesc('Email the post to subscribers when it\'s published')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Don\'t send');
+                for (const newsletter of this.newsletters ?? []) {
+                    dropdown.addOption(newsletter.slug, newsletter.name);
+                }
+                dropdown
+                    .setValue(this.editableNewsletter)
+                    .onChange(value => {
+                        this.editableNewsletter = value;
+                        this.renderNewsletterSection();
+                    });
+            });
+
+        if (!this.editableNewsletter) {
+            return;
+        }
+
+        new Setting(section)
+            .setName('Send to')
+            .addDropdown(dropdown => dropdown
+                .addOption('all', 'All subscribers')
+                .addOption('free', 'Free members')
+                .addOption('paid', 'Paid members')
+                .addOption('custom', 'Custom filter')
+                .setValue(this.editableSegment)
+                .onChange(value => {
+                    this.editableSegment = value as EmailSegment;
+                    this.renderNewsletterSection();
+                }));
+
+        if (this.editableSegment === 'custom') {
+            new Setting(section)
+                .setName('Member filter')
+                .setDesc('A ghost member filter, e.g. label:vip')
+                .addText(text => text
+                    .setValue(this.editableEmailFilter)
+                    .onChange(value => {
+                        this.editableEmailFilter = value;
+                    }));
+        }
+
+        new Setting(section)
+            .setName('Email only')
+            .setDesc('Send the email without publishing the post on the site')
+            .addToggle(toggle => toggle
+                .setValue(this.editableEmailOnly)
+                .onChange(value => {
+                    this.editableEmailOnly = value;
+                }));
+    }
+
+    /**
+     * The newsletter to send the post to, if any
+     */
+    private getEmailOptions(): EmailOptions | undefined {
+        if (!this.editableNewsletter || !this.canSendNewsletter()) {
+            return undefined;
+        }
+        const segment = this.editableSegment === 'custom'
+            ? this.editableEmailFilter.trim()
+            : EMAIL_SEGMENT_FILTERS[this.editableSegment];
+        return { newsletter: this.editableNewsletter, segment };
+    }
+
+    /**
+     * Check that the newsletter choices can be sent with the chosen status
+     */
+    private validateEmailOptions(email: EmailOptions): string | null {
+        if (!email.segment) {
+            return 'Enter a member filter, or choose who receives the newsletter';
+        }
+        if (this.editableEmailOnly && this.editableStatus !== 'published') {
+            return 'Email-only posts are sent straight away; set the status to published';
+        }
+        if (this.editableStatus === 'draft') {
+            return 'Drafts are not emailed; set the status to published or scheduled to send the newsletter';
+        }
+        return null;
+    }
+
+    /**
+     * Show how many members will receive the email and ask before sending it
+     */
+    private async confirmNewsletter(api: GhostAPI, email: EmailOptions): Promise<boolean> {
+        const newsletter = this.newsletters?.find(n => n.slug === email.newsletter);
+        const filters = [`newsletters.slug:${email.newsletter}`, 'email_disabled:0'];
+        if (email.segment !== 'all') {
+            filters.push(`(${email.segment})`);
+        }
+
+        this.setStatus('Counting recipients...');
+        const count = await api.countMembers(filters.join('+'));
+        const recipients = count.success
+            ? `${count.count} subscriber${count.count === 1 ? '' : 's'}`
+            : 'subscribers (the recipient count could not be loaded)';
+        const when = this.editableStatus === 'scheduled' ? 'when it is published' : 'now';
+
+        this.setStatus(`"${this.editableTitle}" will be emailed ${when} to ${recipients} of ${newsletter?.name ?? email.newsletter}. This can't be undone.`);
+        const choice = await this.askChoice([
+            { value: 'cancel', text: 'Cancel' },
+            { value: 'send', text: 'Send newsletter', cls: 'mod-warning' }
+        ], 'cancel');
+        return choice === 'send';
+    }
+
+    /**
+     * Hide the fields that don't apply to pages
+     */
+    private toggleTypeFields() {
+        for (const field of this.postOnlyFields) {
+            field.toggle(this.editableType === 'post');
+        }
+    }
+
+    /**
+     * Check whether images are optimized before upload for this note
+     */
+    private shouldProcessImages(): boolean {
+        return this.imageProcessing.enabled && this.metadata.optimizeImages;
+    }
+
+    private describeImageProcessing(): string {
+        if (!this.imageProcessing.enabled) {
+            return 'Off';
+        }
+        if (!this.metadata.optimizeImages) {
+            return 'Off for this note';
+        }
+
+        const { maxWidth, maxHeight, format, quality } = this.imageProcessing;
+        const parts: string[] = [];
+        if (maxWidth > 0 || maxHeight > 0) {
+            parts.push(`max ${maxWidth || 'any'}×${maxHeight || 'any'}px`);
+        }
+        if (format !== 'original') {
+            parts.push(`${format === 'jpeg' ? 'JPEG' : 'WebP'} at ${quality}%`);
+        }
+        if (this.imageProcessing.stripMetadata) {
+            parts.push('metadata removed');
+        }
+        return parts.length > 0 ? parts.join(', ') : 'On';
+    }
+
+    private formatBytes(bytes: number): string {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    /**
+     * Describe the bytes saved by image optimization in this publish
+     */
+    private describeBytesSaved(): string {
+        if (!this.uploader) {
+            return '';
+        }
+        const { originalBytes, uploadedBytes } = this.uploader;
+        const saved = originalBytes - uploadedBytes;
+        if (saved <= 0) {
+            return '';
+        }
+        return `Images optimized: ${this.formatBytes(originalBytes)} → ${this.formatBytes(uploadedBytes)} (saved ${this.formatBytes(saved)})`;
+    }
+
+    private getPublishButtonText(): string {
+        if (this.dryRun) {
+            return 'Export';
+        }
+        return this.existingPost ? 'Update' : 'Publish';
+    }
+
+    /**
+     * Check whether the linked post was modified after the last publish from this note
+     */
+    private hasRemoteChanges(): boolean {
+        if (!this.existingPost || !this.metadata.ghostUpdatedAt) {
+            return false;
+        }
+        return new Date(this.existingPost.updated_at).getTime() !== new Date(this.metadata.ghostUpdatedAt).getTime();
     }
 
     private getFilename(path: string): string {
@@ -183,18 +1121,6 @@ export class PublishModal extends Modal {
         }
     }
 
-    /**
-     * Convert a Date to the format required by datetime-local input (YYYY-MM-DDTHH:mm)
-     */
-    private toLocalDatetimeString(date: Date): string {
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        const hours = String(date.getHours()).padStart(2, '0');
-        const minutes = String(date.getMinutes()).padStart(2, '0');
-        return `${year}-${month}-${day}T${hours}:${minutes}`;
-    }
-
     /**
      * Show/hide the schedule date picker based on status
      */
@@ -226,182 +1152,300 @@ export class PublishModal extends Modal {
     }
 
     /**
-     * Resolve an image path to a TFile
+     * Show a task's progress in the upload list
      */
-    private resolveImagePath(imagePath: string): TFile | null {
-        // Try direct path first
-        const directFile = this.vault.getAbstractFileByPath(imagePath);
-        if (directFile instanceof TFile) {
-            return directFile;
+    private updateTask(task: ImageUploadTask, state: ImageUploadState, message: string) {
+        task.state = state;
+        task.message = message;
+        if (!task.rowEl && this.uploadListEl) {
+            task.rowEl = this.uploadListEl.createEl('li', { cls: 'ghosty-posty-upload-item' });
         }
-
-        // Try using metadata cache for link resolution (handles relative paths)
-        const resolved = this.metadataCache.getFirstLinkpathDest(imagePath, this.sourceFile.path);
-        if (resolved instanceof TFile) {
-            return resolved;
+        if (task.rowEl) {
+            task.rowEl.empty();
+            task.rowEl.createSpan({ text: this.getFilename(task.image.path), cls: 'ghosty-posty-upload-name' });
+            task.rowEl.createSpan({ text: message, cls: `ghosty-posty-upload-state is-${state}` });
         }
+    }
 
-        // Try relative to source file's folder
-        const sourceFolder = this.sourceFile.parent?.path || '';
-        const relativePath = sourceFolder ? `${sourceFolder}/${imagePath}` : imagePath;
-        const relativeFile = this.vault.getAbstractFileByPath(relativePath);
-        if (relativeFile instanceof TFile) {
-            return relativeFile;
-        }
+    /**
+     * Upload images a few at a time and return the URL mapping plus the tasks that failed
+     */
+    private async uploadImages(api: GhostAPI, uploader: ImageUploader, tasks: ImageUploadTask[], urlMap: Map<string, string>): Promise<ImageUploadTask[]> {
+        tasks.forEach(task => this.updateTask(task, 'pending', 'Waiting...'));
 
-        return null;
+        let finished = 0;
+        this.setStatus(`Uploading images (0/${tasks.length})...`);
+        await runWithConcurrency(tasks, UPLOAD_CONCURRENCY, async (task) => {
+            const result = await uploader.upload(api, task.image, (state, message) => this.updateTask(task, state, message));
+            if (result.success) {
+                urlMap.set(task.image.path, result.url);
+            } else {
+                this.updateTask(task, 'failed', result.error);
+            }
+            finished++;
+            this.setStatus(`Uploading images (${finished}/${tasks.length})...`);
+        });
+
+        // Keep successful uploads even if the publish is cancelled
+        await uploader.saveCache();
+
+        return tasks.filter(task => task.state === 'failed');
     }
 
     /**
-     * Upload all images and return URL mapping
+     * Show a row of choices while publishing and wait for one to be clicked
+     * Closing the modal picks the cancel choice
      */
-    private async uploadImages(
-        api: GhostAPI,
-        images: ImageReference[]
-    ): Promise<{ success: true; urlMap: Map<string, string> } | { success: false; error: string }> {
-        const urlMap = new Map<string, string>();
-
-        for (let i = 0; i < images.length; i++) {
-            const image = images[i];
-            const filename = this.getFilename(image.path);
-
-            this.setStatus(`Uploading image ${i + 1}/${images.length}: ${filename}...`);
-
-            // Resolve the image file
-            const imageFile = this.resolveImagePath(image.path);
-            if (!imageFile) {
-                return {
-                    success: false,
-                    error: `Image not found: ${image.path}`
-                };
+    private askChoice<T extends string>(choices: PromptChoice<T>[], cancelValue: T): Promise<T> {
+        return new Promise(resolve => {
+            const promptEl = this.promptEl;
+            if (!promptEl) {
+                resolve(cancelValue);
+                return;
             }
 
-            // Read the image data
-            let imageData: ArrayBuffer;
-            try {
-                imageData = await this.vault.readBinary(imageFile);
-            } catch {
-                return {
-                    success: false,
-                    error: `Failed to read image: ${image.path}`
-                };
-            }
+            const choose = (value: T) => {
+                promptEl.empty();
+                this.cancelPrompt = null;
+                resolve(value);
+            };
+            this.cancelPrompt = () => choose(cancelValue);
 
-            // Upload to Ghost
-            const result = await api.uploadImage(filename, imageData);
-            if (!result.success) {
-                return {
-                    success: false,
-                    error: `Failed to upload ${filename}: ${result.error}`
-                };
+            promptEl.empty();
+            for (const choice of choices) {
+                promptEl.createEl('button', { text: choice.text, cls: choice.cls })
+                    .addEventListener('click', () => choose(choice.value));
             }
+        });
+    }
 
-            urlMap.set(image.path, result.url);
+    /**
+     * Ask what to do about images that still failed after retrying
+     */
+    private askUploadFailureAction(failed: ImageUploadTask[]): Promise<UploadFailureAction> {
+        this.setStatus(`${failed.length} image${failed.length === 1 ? '' : 's'} failed to upload`);
+        return this.askChoice<UploadFailureAction>([
+            { value: 'cancel', text: 'Cancel' },
+            { value: 'skip', text: 'Publish without them' },
+            { value: 'retry', text: 'Retry failed', cls: 'mod-cta' }
+        ], 'cancel');
+    }
+
+    /**
+     * Re-enable the form after a failed or cancelled publish
+     */
+    private resetPublishButton() {
+        this.setButtonsEnabled(true);
+        if (this.publishButton) {
+            this.publishButton.textContent = this.getPublishButtonText();
         }
+    }
+
+    /**
+     * Write the post to the export folder through the same conversion and image replacement as publishing
+     */
+    private async exportDryRun() {
+        this.setButtonsEnabled(false);
+        this.setStatus('Exporting...');
 
-        return { success: true, urlMap };
+        const result = await exportNoteAsHtml(this.vault, this.metadataCache, this.sourceFile, this.editableTitle, this.conversionResult, this.exportFolder);
+        if (result.success) {
+            const missing = result.missingImages.length > 0
+                ? ` ${result.missingImages.length} image${result.missingImages.length === 1 ? ' was' : 's were'} not found: ${result.missingImages.join(', ')}.`
+                : '';
+            this.setStatus(`Dry run: exported to ${result.path} with ${result.imageCount} image${result.imageCount === 1 ? '' : 's'}.${missing} Nothing was sent to ghost.`);
+        } else {
+            new Notice(`Export failed: ${result.error}`);
+            this.setStatus(`Error: ${result.error}`);
+        }
+        this.resetPublishButton();
     }
 
     private async publish() {
+        if (this.dryRun) {
+            await this.exportDryRun();
+            return;
+        }
+
         this.setButtonsEnabled(false);
         if (this.publishButton) {
-            this.publishButton.textContent = 'Publishing...';
+            this.publishButton.textContent = this.existingPost ? 'Updating...' : 'Publishing...';
         }
 
+        // Every attempt that fails is logged with its error; declining a confirmation isn't an attempt
+        const type = this.editableType;
+        let imageCount = 0;
+        let outcome: { post: GhostPostResponse['posts'][0] } | { error: string } | null = null;
+
         try {
-            const api = new GhostAPI(this.ghostUrl, this.apiKey);
+            const api = new GhostAPI(this.site.ghostUrl, this.site.apiKey);
 
-            // Collect all images to upload
-            const allImages: ImageReference[] = [
-                ...(this.conversionResult.featuredImage ? [this.conversionResult.featuredImage] : []),
-                ...this.conversionResult.images
-            ];
+            // Authors from frontmatter must match staff users before anything is uploaded
+            const authorError = this.users === null
+                ? 'Authors are still loading, try again in a moment'
+                : this.unknownAuthors.length > 0 ? this.describeUnknownAuthors() : null;
+            if (authorError) {
+                outcome = { error: authorError };
+                new Notice(authorError);
+                this.setStatus(authorError);
+                this.resetPublishButton();
+                return;
+            }
+
+            if (this.editableVisibility === 'tiers' && this.editableTierIds.size === 0) {
+                const tierError = 'Choose at least one tier, or a different visibility';
+                outcome = { error: tierError };
+                new Notice(tierError);
+                this.setStatus(tierError);
+                this.resetPublishButton();
+                return;
+            }
+
+            // Typos in tags would create duplicates in ghost, so confirm new tags first
+            const { tags, newTags } = this.getTags();
+            if (newTags.length > 0) {
+                this.setStatus(`${newTags.length === 1 ? 'This tag doesn\'t' : 'These tags don\'t'} exist in ghost yet and will be created: ${newTags.join(', ')}`);
+                const choice = await this.askChoice([
+                    { value: 'cancel', text: 'Cancel' },
+                    { value: 'create', text: 'Create tags', cls: 'mod-cta' }
+                ], 'cancel');
+                if (choice === 'cancel') {
+                    this.setStatus('Publish cancelled');
+                    this.resetPublishButton();
+                    return;
+                }
+            }
+
+            // Sending a newsletter can't be undone, so check and confirm it before anything is uploaded
+            const email = this.getEmailOptions();
+            if (email) {
+                const emailError = this.validateEmailOptions(email);
+                if (emailError) {
+                    outcome = { error: emailError };
+                    new Notice(emailError);
+                    this.setStatus(emailError);
+                    this.resetPublishButton();
+                    return;
+                }
+                if (!await this.confirmNewsletter(api, email)) {
+                    this.setStatus('Publish cancelled');
+                    this.resetPublishButton();
+                    return;
+                }
+            }
+
+            // Collect all images to upload; social card images from the vault go through the same upload pipeline
+            const { images: allImages, seoImages } = collectPostImages(this.conversionResult, this.editableSeo);
 
             let html = this.conversionResult.html;
+            let seo: SeoFields = { ...this.editableSeo };
             let featureImageUrl: string | undefined;
 
             // Upload images if there are any
             if (allImages.length > 0) {
-                const uploadResult = await this.uploadImages(api, allImages);
+                this.uploadListEl?.empty();
+                const uploader = new ImageUploader(this.vault, this.metadataCache, this.sourceFile, this.site, this.imageProcessing, this.imageCache, this.shouldProcessImages());
+                this.uploader = uploader;
 
-                if (!uploadResult.success) {
-                    new Notice(`Error: ${uploadResult.error}`);
-                    this.setStatus(`Error: ${uploadResult.error}`);
-                    this.setButtonsEnabled(true);
-                    if (this.publishButton) {
-                        this.publishButton.textContent = 'Publish';
-                    }
-                    return;
-                }
+                const urlMap = new Map<string, string>();
+                const tasks: ImageUploadTask[] = allImages.map(image => ({ image, state: 'pending', message: '', rowEl: null }));
+                let failed = await this.uploadImages(api, uploader, tasks, urlMap);
 
-                // Get featured image URL
-                if (this.conversionResult.featuredImage) {
-                    featureImageUrl = uploadResult.urlMap.get(this.conversionResult.featuredImage.path);
+                // Let the user decide what to do with images that still failed
+                while (failed.length > 0) {
+                    const action = await this.askUploadFailureAction(failed);
+                    if (action === 'retry') {
+                        failed = await this.uploadImages(api, uploader, failed, urlMap);
+                    } else if (action === 'skip') {
+                        html = removeImages(html, failed.map(task => task.image.path));
+                        break;
+                    } else {
+                        imageCount = urlMap.size;
+                        outcome = { error: `Publish cancelled after ${failed.length} image upload${failed.length === 1 ? '' : 's'} failed` };
+                        this.setStatus('Publish cancelled. Uploaded images are kept and reused next time.');
+                        this.resetPublishButton();
+                        return;
+                    }
                 }
 
-                // Replace image paths in HTML
-                html = replaceImageUrls(html, uploadResult.urlMap);
+                // Point the HTML, featured image and social card images at the uploads
+                const uploaded = applyUploadedImages(html, this.conversionResult, seo, seoImages, urlMap);
+                html = uploaded.html;
+                featureImageUrl = uploaded.featureImageUrl;
+                seo = uploaded.seo;
+                imageCount = urlMap.size;
             }
 
-            this.setStatus('Creating post...');
+            // Build the post body in the configured format
+            if (this.postFormat === 'lexical') {
+                this.setStatus('Building lexical document...');
+            }
+            const { content, warnings: bookmarkWarnings } = await buildPostContent(api, html, this.postFormat);
+            bookmarkWarnings.forEach(warning => new Notice(warning));
 
-            // Parse tags from comma-separated string
-            const tags = this.editableTags
-                .split(',')
-                .map(t => t.trim())
-                .filter(t => t.length > 0);
+            this.setStatus(this.existingPost ? `Updating ${type}...` : `Creating ${type}...`);
 
             // Determine published_at date
             let publishedAt: string | undefined;
             if (this.editableStatus === 'scheduled' && this.editableScheduledDate) {
+                // The picker drops seconds, so an untouched picker keeps the exact known time
+                const unchanged = this.knownPublishedAt && this.editableScheduledDate === toLocalDatetimeString(new Date(this.knownPublishedAt));
                 // Convert local datetime to ISO string
-                const localDate = new Date(this.editableScheduledDate);
-                publishedAt = localDate.toISOString();
+                publishedAt = unchanged ? this.knownPublishedAt : new Date(this.editableScheduledDate).toISOString();
             } else if (this.metadata.publishedAt) {
                 publishedAt = this.metadata.publishedAt;
             }
 
-            const payload: GhostPostPayload = {
-                posts: [{
-                    title: this.editableTitle,
-                    html: html,
-                    status: this.editableStatus,
-                    ...(this.metadata.slug && { slug: this.metadata.slug }),
-                    ...(tags.length > 0 && {
-                        tags: tags.map(name => ({ name }))
-                    }),
-                    ...(publishedAt && { published_at: publishedAt }),
-                    ...(featureImageUrl && { feature_image: featureImageUrl }),
-                    ...(this.editableFeatured && { featured: true })
-                }]
-            };
+            const payload = buildPostPayload({
+                title: this.editableTitle,
+                status: this.editableStatus,
+                slug: this.metadata.slug,
+                tags,
+                publishedAt,
+                featured: this.editableFeatured,
+                seo,
+                authorIds: this.editableAuthorIds,
+                visibility: this.editableVisibility,
+                tierIds: Array.from(this.editableTierIds),
+                emailOnly: !!email && this.editableEmailOnly
+            }, content, featureImageUrl, this.existingPost, this.metadata.ghostUpdatedAt);
 
-            const result = await api.createPost(payload);
+            const result = this.existingPost
+                ? await api.updatePost(this.existingPost.id, payload, type, email)
+                : await api.createPost(payload, type, email);
+            outcome = result.success ? { post: result.post } : { error: result.error };
 
             if (result.success) {
-                new Notice(`Post published successfully!`);
-                this.onSuccess(result.post.url);
+                const bytesSaved = this.describeBytesSaved();
+                const label = type === 'page' ? 'Page' : 'Post';
+                const newsletterName = this.newsletters?.find(n => n.slug === email?.newsletter)?.name ?? email?.newsletter;
+                const emailed = email ? `\n${this.editableStatus === 'scheduled' ? 'Will be emailed' : 'Emailed'} to ${newsletterName} subscribers` : '';
+                new Notice(`${label} ${this.existingPost ? 'updated' : 'published'} successfully!${emailed}${bytesSaved ? `\n${bytesSaved}` : ''}`);
+                this.onSuccess(result.post, this.site, type);
                 this.close();
             } else {
-                new Notice(`Failed to publish: ${result.error}`);
+                new Notice(`Failed to publish: ${result.error}`, 10000);
                 this.setStatus(`Error: ${result.error}`);
-                this.setButtonsEnabled(true);
-                if (this.publishButton) {
-                    this.publishButton.textContent = 'Publish';
-                }
+                this.resetPublishButton();
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            // A post that was already published is still logged as published
+            outcome = outcome ?? { error: errorMessage };
             new Notice(`Error: ${errorMessage}`);
             this.setStatus(`Error: ${errorMessage}`);
-            this.setButtonsEnabled(true);
-            if (this.publishButton) {
-                this.publishButton.textContent = 'Publish';
+            this.resetPublishButton();
+        } finally {
+            if (outcome) {
+                void this.history.recordAttempt(this.sourceFile.path, this.site, type, this.existingPost, imageCount, outcome);
             }
         }
     }
 
     onClose() {
+        // Closing the modal while a choice is pending cancels the publish
+        this.cancelPrompt?.();
+
         const { contentEl } = this;
         contentEl.empty();
     }
@@ -0,0 +1,65 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { toLocalDatetimeString } from './dates';
+
+/**
+ * Ask for a new publish time for a scheduled post
+ */
+export class RescheduleModal extends Modal {
+    private title: string;
+    private value: string;
+    private onSubmit: (publishedAt: string) => void;
+
+    constructor(app: App, title: string, publishedAt: string, onSubmit: (publishedAt: string) => void) {
+        super(app);
+        this.title = title;
+        this.value = toLocalDatetimeString(new Date(publishedAt));
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('ghosty-posty-modal');
+
+        contentEl.createEl('h2', { text: 'Reschedule' });
+        contentEl.createDiv({ cls: 'ghosty-posty-field', text: this.title });
+
+        const formSection = contentEl.createDiv({ cls: 'ghosty-posty-form' });
+        new Setting(formSection)
+            .setName('Publish at')
+            .setDesc('Date and time to publish (your local timezone)')
+            .addText(text => {
+                text.inputEl.type = 'datetime-local';
+                text
+                    .setValue(this.value)
+                    .onChange(value => {
+                        this.value = value;
+                    });
+            });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'ghosty-posty-buttons' });
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.close());
+
+        const saveButton = buttonContainer.createEl('button', {
+            text: 'Reschedule',
+            cls: 'mod-cta'
+        });
+        saveButton.addEventListener('click', () => {
+            const date = new Date(this.value);
+            if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+                new Notice('Choose a date and time in the future');
+                return;
+            }
+            this.close();
+            this.onSubmit(date.toISOString());
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
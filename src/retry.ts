@@ -0,0 +1,44 @@
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15000
+};
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: roughly 1s, 2s, 4s... capped at maxDelayMs
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+
+    return undefined;
+}
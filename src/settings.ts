@@ -1,8 +1,11 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type GhostyPostyPlugin from './main';
 import { GhostAPI } from './ghost-api';
-import { PostStatus } from './types';
+import { CalloutColor, GhostSite, HistoryLogFormat, ImageOutputFormat, PostFormat, PostStatus } from './types';
 import { FolderSuggest } from './folder-suggest';
+import { createSite } from './sites';
+import { normalizeObsidianTag } from './tags';
+import { HistoryModal } from './history-modal';
 
 export class GhostyPostySettingTab extends PluginSettingTab {
     plugin: GhostyPostyPlugin;
@@ -16,15 +19,390 @@ export class GhostyPostySettingTab extends PluginSettingTab {
         const { containerEl } = this;
         containerEl.empty();
 
+        const { sites } = this.plugin.settings;
+
+        // Post format setting
+        new Setting(containerEl)
+            .setName('Post format')
+            .setDesc('HTML is converted by ghost on import; lexical keeps image captions, callouts, bookmarks and code languages as editable cards (ghost 5 or later)')
+            .addDropdown(dropdown => dropdown
+                .addOption('html', 'HTML')
+                .addOption('lexical', 'Lexical')
+                .setValue(this.plugin.settings.postFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.postFormat = value as PostFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Export folder setting
+        new Setting(containerEl)
+            .setName('Export folder')
+            .setDesc('HTML exports and dry runs are written here, one folder per note')
+            .addText(text => {
+                text
+                    .setPlaceholder('Ghost exports')
+                    .setValue(this.plugin.settings.exportFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.exportFolder = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+                new FolderSuggest(this.app, text.inputEl);
+                return text;
+            });
+
+        // Default site setting
+        if (sites.length > 1) {
+            new Setting(containerEl)
+                .setName('Default site')
+                .setDesc('Used when a note has no ghost_site frontmatter key')
+                .addDropdown(dropdown => {
+                    for (const site of sites) {
+                        dropdown.addOption(site.id, site.name);
+                    }
+                    dropdown
+                        .setValue(this.plugin.getDefaultSite()?.id ?? '')
+                        .onChange(async (value) => {
+                            this.plugin.settings.defaultSiteId = value;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        // One section per site
+        for (const site of sites) {
+            this.displaySite(containerEl, site);
+        }
+
+        // Add site button
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add site')
+                .setCta()
+                .onClick(async () => {
+                    const site = createSite(sites.length === 0 ? 'Default' : `Site ${sites.length + 1}`);
+                    this.plugin.settings.sites.push(site);
+                    if (!this.plugin.settings.defaultSiteId) {
+                        this.plugin.settings.defaultSiteId = site.id;
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        this.displayImageProcessing(containerEl);
+        this.displayTagMappings(containerEl);
+        this.displayHistory(containerEl);
+        this.displayCalloutStyles(containerEl);
+
+        // Help section
+        new Setting(containerEl)
+            .setName('How to get your API key')
+            .setHeading();
+
+        const helpList = containerEl.createEl('ol');
+        helpList.createEl('li', { text: 'Go to your ghost admin panel' });
+        helpList.createEl('li', { text: 'Navigate to settings → integrations' });
+        helpList.createEl('li', { text: 'Click "add custom integration"' });
+        helpList.createEl('li', { text: 'Give it a name (example: "publish to blog")' });
+        helpList.createEl('li', { text: 'Copy the admin key' });
+    }
+
+    /**
+     * Render the image optimization settings
+     */
+    private displayImageProcessing(containerEl: HTMLElement): void {
+        const processing = this.plugin.settings.imageProcessing;
+
+        new Setting(containerEl)
+            .setName('Image optimization')
+            .setDesc('Resize and recompress images before upload; a note can opt out with optimize_images: false')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Optimize images')
+            .addToggle(toggle => toggle
+                .setValue(processing.enabled)
+                .onChange(async (value) => {
+                    processing.enabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const addDimensionSetting = (name: string, key: 'maxWidth' | 'maxHeight') => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc('In pixels; 0 for no limit')
+                .addText(text => {
+                    text
+                        .setValue(String(processing[key]))
+                        .onChange(async (value) => {
+                            const pixels = parseInt(value, 10);
+                            processing[key] = isNaN(pixels) || pixels < 0 ? 0 : pixels;
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.type = 'number';
+                    return text;
+                });
+        };
+        addDimensionSetting('Maximum width', 'maxWidth');
+        addDimensionSetting('Maximum height', 'maxHeight');
+
+        new Setting(containerEl)
+            .setName('Format')
+            .setDesc('WebP falls back to JPEG on devices that cannot encode it; GIF and SVG images are never converted')
+            .addDropdown(dropdown => dropdown
+                .addOption('original', 'Keep original')
+                .addOption('jpeg', 'JPEG')
+                .addOption('webp', 'WebP')
+                .setValue(processing.format)
+                .onChange(async (value) => {
+                    processing.format = value as ImageOutputFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Quality')
+            .setDesc('Compression quality for JPEG and WebP')
+            .addSlider(slider => slider
+                .setLimits(10, 100, 5)
+                .setValue(processing.quality)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    processing.quality = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Remove metadata')
+            .setDesc('Strip EXIF data such as camera details and GPS location')
+            .addToggle(toggle => toggle
+                .setValue(processing.stripMetadata)
+                .onChange(async (value) => {
+                    processing.stripMetadata = value;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    /**
+     * Render the table mapping Obsidian tags to ghost tag slugs
+     */
+    private displayTagMappings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Tag mappings')
+            .setDesc('Publish Obsidian tags as existing ghost tags, e.g. blog/tech → technology')
+            .setHeading();
+
+        const mappings = this.plugin.settings.tagMappings;
+
+        for (const tag of Object.keys(mappings).sort()) {
+            new Setting(containerEl)
+                .setName(`#${tag}`)
+                .addText(text => text
+                    .setPlaceholder('Ghost tag slug')
+                    .setValue(mappings[tag])
+                    .onChange(async (value) => {
+                        mappings[tag] = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove mapping')
+                    .onClick(async () => {
+                        delete mappings[tag];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+
+        // Add a mapping
+        let newTag = '';
+        let newSlug = '';
+        new Setting(containerEl)
+            .setName('Add mapping')
+            .setDesc('An Obsidian tag, including nested tags, and the slug of the ghost tag to use')
+            .addText(text => text
+                .setPlaceholder('blog/tech')
+                .onChange(value => {
+                    newTag = normalizeObsidianTag(value);
+                }))
+            .addText(text => text
+                .setPlaceholder('technology')
+                .onChange(value => {
+                    newSlug = value.trim();
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newTag || !newSlug || mappings[newTag]) {
+                        new Notice('Enter an Obsidian tag that is not already mapped and a ghost tag slug');
+                        return;
+                    }
+                    mappings[newTag] = newSlug;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    /**
+     * Render the publish history and log file settings
+     */
+    private displayHistory(containerEl: HTMLElement): void {
+        const { history } = this.plugin;
+
+        new Setting(containerEl)
+            .setName('Publish history')
+            .setDesc('Every publish attempt is recorded, with its post URL or error')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Device name')
+            .setDesc('Recorded with each publish; set on each device and not synced')
+            .addText(text => text
+                .setValue(history.getDeviceName())
+                .onChange(value => {
+                    history.setDeviceName(value.trim());
+                }));
+
+        new Setting(containerEl)
+            .setName('Log file')
+            .setDesc('Also append each attempt to a file in the vault, as a markdown table or JSON lines')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Off')
+                .addOption('markdown', 'Markdown')
+                .addOption('json', 'JSON')
+                .setValue(this.plugin.settings.historyLog)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyLog = value as HistoryLogFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Log file path')
+            .setDesc('Without extension; .md or .jsonl is added')
+            .addText(text => text
+                .setPlaceholder('Ghost publish log')
+                .setValue(this.plugin.settings.historyLogPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyLogPath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        const count = history.getEntries().length;
+        new Setting(containerEl)
+            .setName('Recorded publishes')
+            .setDesc(`${count} publish${count === 1 ? '' : 'es'} recorded; the log file is not affected by clearing`)
+            .addButton(button => button
+                .setButtonText('Show history')
+                .onClick(() => {
+                    new HistoryModal(this.app, history).open();
+                }))
+            .addButton(button => button
+                .setButtonText('Clear history')
+                .setWarning()
+                .onClick(async () => {
+                    await history.clear();
+                    new Notice('Publish history cleared');
+                    this.display();
+                }));
+    }
+
+    /**
+     * Render the emoji and colour used for each callout type
+     */
+    private displayCalloutStyles(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Callouts')
+            .setDesc('Callouts are published as ghost callout cards with these styles; other types become styled blockquotes')
+            .setHeading();
+
+        const styles = this.plugin.settings.calloutStyles;
+        const colors: CalloutColor[] = ['grey', 'white', 'blue', 'green', 'yellow', 'red', 'pink', 'purple', 'accent'];
+
+        for (const type of Object.keys(styles).sort()) {
+            new Setting(containerEl)
+                .setName(type)
+                .addText(text => {
+                    text
+                        .setPlaceholder('Emoji')
+                        .setValue(styles[type].emoji)
+                        .onChange(async (value) => {
+                            styles[type] = { ...styles[type], emoji: value.trim() };
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.addClass('ghosty-posty-emoji-input');
+                    return text;
+                })
+                .addDropdown(dropdown => {
+                    for (const color of colors) {
+                        dropdown.addOption(color, color.charAt(0).toUpperCase() + color.slice(1));
+                    }
+                    dropdown
+                        .setValue(styles[type].color)
+                        .onChange(async (value) => {
+                            styles[type] = { ...styles[type], color: value as CalloutColor };
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove callout type')
+                    .onClick(async () => {
+                        delete styles[type];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+
+        // Add a custom callout type
+        let newType = '';
+        new Setting(containerEl)
+            .setName('Add callout type')
+            .setDesc('The name used in > [!type], e.g. "recipe"')
+            .addText(text => text
+                .setPlaceholder('Type')
+                .onChange(value => {
+                    newType = value.trim().toLowerCase();
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newType || styles[newType]) {
+                        new Notice('Enter a callout type that is not already listed');
+                        return;
+                    }
+                    styles[newType] = { emoji: '💡', color: 'grey' };
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    /**
+     * Render the settings for a single site profile
+     */
+    private displaySite(containerEl: HTMLElement, site: GhostSite): void {
+        const heading = new Setting(containerEl)
+            .setName(site.name || 'Untitled site')
+            .setHeading();
+
+        // Site name setting
+        new Setting(containerEl)
+            .setName('Name')
+            .setDesc(`Shown in the site picker. The ghost_site frontmatter key matches this name or the site ID (${site.id}), which published notes record`)
+            .addText(text => text
+                .setValue(site.name)
+                .onChange(async (value) => {
+                    site.name = value.trim();
+                    heading.setName(site.name || 'Untitled site');
+                    await this.plugin.saveSettings();
+                }));
+
         // Ghost URL setting
         new Setting(containerEl)
             .setName('Ghost admin URL')
             .setDesc('The URL of your ghost instance (e.g., https://myblog.com)')
             .addText(text => text
                 .setPlaceholder('https://myblog.com')
-                .setValue(this.plugin.settings.ghostUrl)
+                .setValue(site.ghostUrl)
                 .onChange(async (value) => {
-                    this.plugin.settings.ghostUrl = value.trim();
+                    site.ghostUrl = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
@@ -34,9 +412,9 @@ export class GhostyPostySettingTab extends PluginSettingTab {
             .setDesc('Your ghost admin API key (found in ghost admin → settings → integrations)')
             .addText(text => {
                 text
-                    .setValue(this.plugin.settings.apiKey)
+                    .setValue(site.apiKey)
                     .onChange(async (value) => {
-                        this.plugin.settings.apiKey = value.trim();
+                        site.apiKey = value.trim();
                         await this.plugin.saveSettings();
                     });
                 // Make the input look like a password field
@@ -51,9 +429,9 @@ export class GhostyPostySettingTab extends PluginSettingTab {
             .addDropdown(dropdown => dropdown
                 .addOption('draft', 'Draft')
                 .addOption('published', 'Published')
-                .setValue(this.plugin.settings.defaultStatus)
+                .setValue(site.defaultStatus)
                 .onChange(async (value) => {
-                    this.plugin.settings.defaultStatus = value as PostStatus;
+                    site.defaultStatus = value as PostStatus;
                     await this.plugin.saveSettings();
                 }));
 
@@ -64,23 +442,23 @@ export class GhostyPostySettingTab extends PluginSettingTab {
             .addText(text => {
                 text
                     .setPlaceholder('')
-                    .setValue(this.plugin.settings.archiveFolder)
+                    .setValue(site.archiveFolder)
                     .onChange(async (value) => {
-                        this.plugin.settings.archiveFolder = value.trim();
+                        site.archiveFolder = value.trim();
                         await this.plugin.saveSettings();
                     });
                 new FolderSuggest(this.app, text.inputEl);
                 return text;
             });
 
-        // Test connection button
+        // Test connection and remove buttons
         new Setting(containerEl)
             .setName('Test connection')
             .setDesc('Verify your ghost credentials are working')
             .addButton(button => button
                 .setButtonText('Test connection')
                 .onClick(async () => {
-                    const { ghostUrl, apiKey } = this.plugin.settings;
+                    const { ghostUrl, apiKey } = site;
 
                     if (!ghostUrl || !apiKey) {
                         new Notice('Please enter your ghost URL and API key first');
@@ -95,9 +473,11 @@ export class GhostyPostySettingTab extends PluginSettingTab {
                         const result = await api.testConnection();
 
                         if (result.success) {
-                            new Notice(`Connected successfully to: ${result.siteName}`);
+                            const version = result.version ? ` (ghost ${result.version})` : '';
+                            new Notice(`Connected successfully to: ${result.siteName}${version}`);
                         } else {
-                            new Notice(`Connection failed: ${result.error}`);
+                            // Keep the explanation on screen long enough to act on it
+                            new Notice(`Connection failed: ${result.error}`, 10000);
                         }
                     } catch (error) {
                         new Notice(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -105,18 +485,19 @@ export class GhostyPostySettingTab extends PluginSettingTab {
                         button.setButtonText('Test connection');
                         button.setDisabled(false);
                     }
+                }))
+            .addButton(button => button
+                .setButtonText('Remove site')
+                .setWarning()
+                .onClick(async () => {
+                    const settings = this.plugin.settings;
+                    settings.sites = settings.sites.filter(s => s.id !== site.id);
+                    delete settings.imageCache[site.id];
+                    if (settings.defaultSiteId === site.id) {
+                        settings.defaultSiteId = settings.sites[0]?.id ?? '';
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
                 }));
-
-        // Help section
-        new Setting(containerEl)
-            .setName('How to get your API key')
-            .setHeading();
-
-        const helpList = containerEl.createEl('ol');
-        helpList.createEl('li', { text: 'Go to your ghost admin panel' });
-        helpList.createEl('li', { text: 'Navigate to settings → integrations' });
-        helpList.createEl('li', { text: 'Click "add custom integration"' });
-        helpList.createEl('li', { text: 'Give it a name (example: "publish to blog")' });
-        helpList.createEl('li', { text: 'Copy the admin key' });
     }
 }
@@ -0,0 +1,34 @@
+import { GhostSite } from './types';
+
+/**
+ * Create a new site profile with default values
+ */
+export function createSite(name: string, values: Partial<Omit<GhostSite, 'id'>> = {}): GhostSite {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+        name,
+        ghostUrl: '',
+        apiKey: '',
+        defaultStatus: 'draft',
+        archiveFolder: '',
+        ...values
+    };
+}
+
+/**
+ * Check whether a site has the credentials needed to talk to Ghost
+ */
+export function isSiteConfigured(site: GhostSite): boolean {
+    return site.ghostUrl !== '' && site.apiKey !== '';
+}
+
+/**
+ * Find a site by its ID, or else its name (case-insensitive), as used by the ghost_site frontmatter key
+ */
+export function findSite(sites: GhostSite[], nameOrId: string): GhostSite | null {
+    const key = nameOrId.trim();
+    const needle = key.toLowerCase();
+    return sites.find(site => site.id === key)
+        || sites.find(site => site.name.trim().toLowerCase() === needle)
+        || null;
+}
@@ -0,0 +1,50 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { PostSnapshot } from './types';
+
+/**
+ * Keeps a snapshot of every post at its last publish, one JSON file per post in the plugin folder
+ * Snapshots hold whole posts, so they are kept out of the plugin's settings
+ */
+export class SnapshotStore {
+    private adapter: DataAdapter;
+    private folder: string;
+
+    constructor(adapter: DataAdapter, pluginDir: string) {
+        this.adapter = adapter;
+        this.folder = normalizePath(`${pluginDir}/snapshots`);
+    }
+
+    private getPath(siteId: string, postId: string): string {
+        return `${this.folder}/${siteId}-${postId}.json`;
+    }
+
+    /**
+     * Get the snapshot of a post, or null if it was never published from this vault
+     */
+    async get(siteId: string, postId: string): Promise<PostSnapshot | null> {
+        const path = this.getPath(siteId, postId);
+        try {
+            if (!await this.adapter.exists(path)) {
+                return null;
+            }
+            return JSON.parse(await this.adapter.read(path)) as PostSnapshot;
+        } catch {
+            // A damaged snapshot is treated as missing
+            return null;
+        }
+    }
+
+    async set(siteId: string, snapshot: PostSnapshot): Promise<void> {
+        if (!await this.adapter.exists(this.folder)) {
+            await this.adapter.mkdir(this.folder);
+        }
+        await this.adapter.write(this.getPath(siteId, snapshot.postId), JSON.stringify(snapshot));
+    }
+
+    async delete(siteId: string, postId: string): Promise<void> {
+        const path = this.getPath(siteId, postId);
+        if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+        }
+    }
+}
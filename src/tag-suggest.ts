@@ -0,0 +1,47 @@
+import { AbstractInputSuggest, App } from 'obsidian';
+import { GhostSiteTag } from './types';
+
+/**
+ * Suggests the site's ghost tags for the tag being typed in a comma-separated list
+ */
+export class TagSuggest extends AbstractInputSuggest<GhostSiteTag> {
+    private textInputEl: HTMLInputElement;
+    private getTags: () => GhostSiteTag[];
+
+    constructor(app: App, inputEl: HTMLInputElement, getTags: () => GhostSiteTag[]) {
+        super(app, inputEl);
+        this.textInputEl = inputEl;
+        this.getTags = getTags;
+    }
+
+    getSuggestions(inputStr: string): GhostSiteTag[] {
+        // Only the text after the last comma is being typed
+        const current = inputStr.split(',').pop()?.trim().toLowerCase() ?? '';
+        const entered = inputStr.split(',').map(tag => tag.trim().toLowerCase());
+
+        const tags = this.getTags().filter(tag =>
+            !entered.includes(tag.name.toLowerCase()) &&
+            (tag.name.toLowerCase().contains(current) || tag.slug.contains(current))
+        );
+
+        // Sort alphabetically by name
+        tags.sort((a, b) => a.name.localeCompare(b.name));
+
+        return tags;
+    }
+
+    renderSuggestion(tag: GhostSiteTag, el: HTMLElement): void {
+        el.setText(tag.name);
+        if (tag.visibility === 'internal') {
+            el.createSpan({ text: ' (internal)', cls: 'ghosty-posty-muted' });
+        }
+    }
+
+    selectSuggestion(tag: GhostSiteTag): void {
+        const parts = this.textInputEl.value.split(',');
+        parts[parts.length - 1] = ` ${tag.name}`;
+        this.textInputEl.value = `${parts.join(',').trim()}, `;
+        this.textInputEl.trigger('input');
+        this.close();
+    }
+}
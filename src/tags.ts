@@ -0,0 +1,25 @@
+import { GhostSiteTag } from './types';
+
+/**
+ * Normalize an Obsidian tag for lookups: lowercase, without the leading #
+ */
+export function normalizeObsidianTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Replace Obsidian tags that have a mapping with the ghost tag slug they map to
+ * Nested tags such as blog/tech are matched as a whole
+ */
+export function applyTagMappings(tags: string[], mappings: Record<string, string>): string[] {
+    const mapped = tags.map(tag => mappings[normalizeObsidianTag(tag)] || tag);
+    return mapped.filter((tag, index) => mapped.indexOf(tag) === index);
+}
+
+/**
+ * Find the existing ghost tag for a name or slug typed in the tags field
+ */
+export function findGhostTag(tags: GhostSiteTag[], value: string): GhostSiteTag | undefined {
+    const key = value.trim().toLowerCase();
+    return tags.find(tag => tag.name.toLowerCase() === key || tag.slug === key);
+}
@@ -1,40 +1,240 @@
 export type PostStatus = 'draft' | 'published' | 'scheduled';
 
-export interface GhostyPostySettings {
+export type PostFormat = 'html' | 'lexical';
+
+export type CalloutColor = 'grey' | 'white' | 'blue' | 'green' | 'yellow' | 'red' | 'pink' | 'purple' | 'accent';
+
+export interface CalloutStyle {
+    emoji: string;
+    color: CalloutColor;
+}
+
+/**
+ * Ghost callout card styles for Obsidian's built-in callout types
+ * Aliases (e.g. "summary", "caution") resolve to these in the converter
+ */
+export const DEFAULT_CALLOUT_STYLES: Record<string, CalloutStyle> = {
+    note: { emoji: '✏️', color: 'blue' },
+    abstract: { emoji: '📋', color: 'blue' },
+    info: { emoji: 'ℹ️', color: 'blue' },
+    todo: { emoji: '☑️', color: 'blue' },
+    tip: { emoji: '💡', color: 'green' },
+    success: { emoji: '✅', color: 'green' },
+    question: { emoji: '❓', color: 'yellow' },
+    warning: { emoji: '⚠️', color: 'yellow' },
+    failure: { emoji: '❌', color: 'red' },
+    danger: { emoji: '⚡', color: 'red' },
+    bug: { emoji: '🐛', color: 'red' },
+    example: { emoji: '📝', color: 'purple' },
+    quote: { emoji: '💬', color: 'grey' }
+};
+
+export interface GhostSite {
+    id: string;
+    name: string;
     ghostUrl: string;
     apiKey: string;
     defaultStatus: PostStatus;
     archiveFolder: string;
 }
 
+export type ImageOutputFormat = 'original' | 'jpeg' | 'webp';
+
+export interface ImageProcessingSettings {
+    enabled: boolean;
+    // 0 means no limit
+    maxWidth: number;
+    maxHeight: number;
+    format: ImageOutputFormat;
+    // 1-100, used for JPEG and WebP
+    quality: number;
+    stripMetadata: boolean;
+}
+
+export interface ImageCacheEntry {
+    url: string;
+    uploadedAt: string;
+}
+
+/**
+ * Where publish attempts are also logged in the vault, besides plugin data
+ */
+export type HistoryLogFormat = 'none' | 'markdown' | 'json';
+
+/**
+ * One publish attempt; failed attempts have an error and usually no post
+ */
+export interface PublishHistoryEntry {
+    timestamp: string;
+    device: string;
+    // Where the note was when it was published, before any archiving
+    notePath: string;
+    siteId: string;
+    siteName: string;
+    type: PostType;
+    action: 'create' | 'update';
+    postId?: string;
+    url?: string;
+    status?: string;
+    imageCount: number;
+    error?: string;
+}
+
+/**
+ * A post as it was last published from a note, used to tell edits made in ghost from edits made in the note
+ */
+export interface PostSnapshot {
+    postId: string;
+    // When the snapshot was taken
+    publishedAt: string;
+    // The post's updated_at after publishing
+    updatedAt: string;
+    title: string;
+    tags: Array<{ name: string; slug: string }>;
+    // The post's HTML as ghost returned it, converted to markdown
+    content: string;
+    // The note's markdown without frontmatter
+    note: string;
+}
+
+export interface GhostyPostySettings {
+    sites: GhostSite[];
+    defaultSiteId: string;
+    postFormat: PostFormat;
+    calloutStyles: Record<string, CalloutStyle>;
+    imageProcessing: ImageProcessingSettings;
+    // Site ID -> SHA-256 of the image bytes -> uploaded image
+    imageCache: Record<string, Record<string, ImageCacheEntry>>;
+    // Obsidian tag (lowercase, without #) -> ghost tag slug
+    tagMappings: Record<string, string>;
+    // Vault folder that HTML exports and dry runs are written to
+    exportFolder: string;
+    // Newest first
+    publishHistory: PublishHistoryEntry[];
+    historyLog: HistoryLogFormat;
+    // Vault path of the log file, without extension
+    historyLogPath: string;
+}
+
 export const DEFAULT_SETTINGS: GhostyPostySettings = {
-    ghostUrl: '',
-    apiKey: '',
-    defaultStatus: 'draft',
-    archiveFolder: ''
+    sites: [],
+    defaultSiteId: '',
+    postFormat: 'html',
+    calloutStyles: DEFAULT_CALLOUT_STYLES,
+    imageProcessing: {
+        enabled: false,
+        maxWidth: 2000,
+        maxHeight: 2000,
+        format: 'original',
+        quality: 85,
+        stripMetadata: true
+    },
+    imageCache: {},
+    tagMappings: {},
+    exportFolder: 'Ghost exports',
+    publishHistory: [],
+    historyLog: 'none',
+    historyLogPath: 'Ghost publish log'
 };
 
+/**
+ * Settings saved before multiple sites were supported
+ */
+export interface LegacySiteSettings {
+    ghostUrl?: string;
+    apiKey?: string;
+    defaultStatus?: PostStatus;
+    archiveFolder?: string;
+}
+
+/**
+ * Ghost serves posts and pages from separate endpoints with the same fields
+ */
+export type PostType = 'post' | 'page';
+
+/**
+ * Which members receive a newsletter; "custom" uses an NQL member filter
+ */
+export type EmailSegment = 'all' | 'free' | 'paid' | 'custom';
+
+/**
+ * Excerpt, search and social card fields, named as in Ghost and in frontmatter
+ */
+export type SeoField = 'custom_excerpt' | 'meta_title' | 'meta_description' | 'og_title' | 'og_description' | 'og_image'
+    | 'twitter_title' | 'twitter_description' | 'twitter_image' | 'canonical_url';
+
+export const SEO_FIELDS: SeoField[] = [
+    'custom_excerpt', 'meta_title', 'meta_description', 'og_title', 'og_description', 'og_image',
+    'twitter_title', 'twitter_description', 'twitter_image', 'canonical_url'
+];
+
+// Social card images that may point at vault files
+export const SEO_IMAGE_FIELDS: SeoField[] = ['og_image', 'twitter_image'];
+
+export type SeoFields = Partial<Record<SeoField, string>>;
+
+/**
+ * Who can read a post; "tiers" limits it to specific paid tiers
+ */
+export type PostVisibility = 'public' | 'members' | 'paid' | 'tiers';
+
 export interface PostMetadata {
+    type: PostType;
     title: string;
     slug?: string;
     tags: string[];
     status: PostStatus;
     publishedAt?: string;
+    ghostId?: string;
+    ghostUpdatedAt?: string;
+    optimizeImages: boolean;
+    // Newsletter presets: the newsletter's slug or name, who receives it, and whether to skip the site
+    newsletter?: string;
+    emailSegment: EmailSegment;
+    emailFilter?: string;
+    emailOnly: boolean;
+    visibility: PostVisibility;
+    // Tier slugs or names, used when visibility is "tiers"
+    tiers: string[];
+    // Staff emails or slugs, primary author first
+    authors: string[];
+    seo: SeoFields;
 }
 
 export interface GhostTag {
+    name?: string;
+    slug?: string;
+}
+
+/**
+ * A tag as listed by the tags endpoint; internal tags have names starting with #
+ */
+export interface GhostSiteTag {
+    id: string;
     name: string;
+    slug: string;
+    visibility: 'public' | 'internal';
 }
 
-export interface GhostPost {
+export interface GhostTagsResponse {
+    tags: GhostSiteTag[];
+}
+
+export interface GhostPost extends SeoFields {
     title: string;
-    html: string;
+    html?: string;
+    lexical?: string;
     status: PostStatus;
     tags?: GhostTag[];
     slug?: string;
     published_at?: string;
     feature_image?: string;
     featured?: boolean;
+    updated_at?: string;
+    email_only?: boolean;
+    visibility?: PostVisibility;
+    tiers?: Array<{ id: string }>;
+    authors?: Array<{ id: string }>;
 }
 
 export interface ImageReference {
@@ -45,6 +245,33 @@ export interface ImageReference {
     isFirstLine: boolean;
 }
 
+export interface LexicalNode {
+    type: string;
+    version: number;
+    children?: LexicalNode[];
+    [key: string]: unknown;
+}
+
+export interface LexicalDocument {
+    root: LexicalNode & { children: LexicalNode[] };
+}
+
+export interface GhostBookmarkMetadata {
+    url: string;
+    title: string;
+    description: string | null;
+    author: string | null;
+    publisher: string | null;
+    thumbnail: string | null;
+    icon: string | null;
+}
+
+export interface GhostOembedResponse {
+    type: string;
+    url: string;
+    metadata: GhostBookmarkMetadata;
+}
+
 export interface GhostImageUploadResponse {
     images: Array<{
         url: string;
@@ -60,22 +287,116 @@ export interface GhostSiteResponse {
     site: {
         title: string;
         url: string;
+        version?: string;
     };
 }
 
 export interface GhostPostResponse {
     posts: Array<{
         id: string;
+        uuid: string;
         title: string;
         slug: string;
         url: string;
-        status: PostStatus;
+        // Posts that were only emailed have the status "sent"
+        status: PostStatus | 'sent';
+        featured: boolean;
+        feature_image: string | null;
+        tags?: Array<{
+            id: string;
+            name: string;
+            slug: string;
+        }>;
+        created_at: string;
+        updated_at: string;
+        published_at: string | null;
+        html?: string;
+        visibility?: PostVisibility;
+        tiers?: GhostTier[];
+        authors?: GhostUser[];
     }>;
+    meta?: {
+        pagination: GhostPagination;
+    };
+}
+
+export interface GhostUser {
+    id: string;
+    name: string;
+    slug: string;
+    email: string;
+}
+
+export interface GhostUsersResponse {
+    users: GhostUser[];
+}
+
+export interface GhostTier {
+    id: string;
+    name: string;
+    slug: string;
+    type?: string;
+    active?: boolean;
+}
+
+export interface GhostTiersResponse {
+    tiers: GhostTier[];
+}
+
+export interface GhostNewsletter {
+    id: string;
+    name: string;
+    slug: string;
+    status: string;
+}
+
+export interface GhostNewslettersResponse {
+    newsletters: GhostNewsletter[];
+}
+
+export interface GhostMembersResponse {
+    members: Array<{ id: string }>;
+    meta: {
+        pagination: GhostPagination;
+    };
+}
+
+export interface GhostPagination {
+    page: number;
+    limit: number;
+    pages: number;
+    total: number;
+    next: number | null;
+    prev: number | null;
 }
 
 export interface GhostErrorResponse {
     errors: Array<{
         message: string;
         type: string;
+        context?: string | null;
+        help?: string | null;
+        property?: string | null;
     }>;
 }
+
+/**
+ * What went wrong with an API request, so callers can react and explain it
+ */
+export type GhostErrorKind = 'auth' | 'validation' | 'version' | 'rateLimit' | 'conflict' | 'notFound' | 'network' | 'server' | 'unknown';
+
+export interface GhostApiError {
+    kind: GhostErrorKind;
+    // Ghost's own message, or the network error
+    message: string;
+    // HTTP status, or null if no response was received
+    status: number | null;
+    // Ghost error type, e.g. "ValidationError"
+    type?: string;
+    // Extra detail from Ghost, e.g. which value was invalid
+    context?: string;
+    // The field a validation error refers to
+    property?: string;
+    // Seconds to wait before retrying, from the Retry-After header
+    retryAfter?: number;
+}
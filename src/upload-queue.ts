@@ -0,0 +1,23 @@
+/**
+ * Number of images uploaded at the same time
+ */
+export const UPLOAD_CONCURRENCY = 3;
+
+/**
+ * Run a worker over all items with at most `limit` running at once
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    let next = 0;
+    const runners: Promise<void>[] = [];
+
+    for (let i = 0; i < Math.min(limit, items.length); i++) {
+        runners.push((async () => {
+            while (next < items.length) {
+                const index = next++;
+                await worker(items[index], index);
+            }
+        })());
+    }
+
+    await Promise.all(runners);
+}
@@ -0,0 +1,21 @@
+import { Vault } from 'obsidian';
+
+/**
+ * Remove characters that aren't allowed in file or folder names or break wiki links
+ */
+export function sanitizeFilename(name: string): string {
+    return name.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Create a folder (and its parents) if it doesn't exist yet
+ */
+export async function ensureFolder(vault: Vault, path: string): Promise<void> {
+    const parts = path.split('/');
+    for (let i = 1; i <= parts.length; i++) {
+        const partial = parts.slice(0, i).join('/');
+        if (!vault.getAbstractFileByPath(partial)) {
+            await vault.createFolder(partial);
+        }
+    }
+}